@@ -0,0 +1,143 @@
+/**
+ * Automatic mocks of modules, generated from their actual exports
+ *
+ * Like in Jest, functions and class methods become mock functions, objects are mocked
+ * recursively and primitives keep their value. Automatic mocks are used by jest.mock()
+ * without a factory and by jest.createMockFromModule(). When automock is enabled, the
+ * module hooks also replace the user modules imported by the test code with the mock
+ * modules generated here.
+ */
+import { fileURLToPath } from 'node:url';
+import { ModuleMocker } from 'jest-mock';
+import { isESModule, requireModule } from './moduleResolution.js';
+import { configRegistry, mockRegistry, moduleRegistry } from './registry.js';
+
+// Mocks generated by the module mocker are cleared and reset with the other mocks
+const moduleMocker = mockRegistry.registerModuleMocker(new ModuleMocker(globalThis));
+
+// Query marking the URLs of modules replaced by their automatic mock, and how they are loaded
+const AUTOMOCK_QUERY = '?jest-automock=';
+
+// Global accessor the generated mock modules get their exports from
+const AUTOMOCK_ACCESSOR = Symbol.for('node-test-jest-compat.automock');
+
+// Automatic mocks loaded by the module hooks, indexed by the URL of the actual module
+const automocks = new Map<string, { exports: any; isESM: boolean; names: string[] }>();
+(globalThis as any)[AUTOMOCK_ACCESSOR] = (url: string) => automocks.get(url)?.exports;
+
+/**
+ * Generates the automatic mock of a value
+ * @param actual Actual value, usually the exports of a module
+ * @returns Mock of the value
+ */
+export function generateAutomock(actual: any): any {
+  const metadata = moduleMocker.getMetadata(actual);
+  if (!metadata) {
+    throw new Error('Failed to get mock metadata of the module exports');
+  }
+  return moduleMocker.generateFromMetadata(metadata);
+}
+
+/**
+ * Creates the automatic mock of a module, like jest.createMockFromModule()
+ * @param moduleName Module to mock, relative to the calling file
+ * @param fromFile File to resolve the module from
+ * @returns Mock of the module exports
+ */
+export function createMockFromModule(moduleName: string, fromFile?: string): any {
+  return generateAutomock(requireModule(moduleName, fromFile));
+}
+
+/**
+ * Enables or disables the automatic mocking of imported user modules
+ * @param enabled Whether modules imported from now on are replaced by their automatic mock
+ */
+export function setAutomock(enabled: boolean) {
+  configRegistry.setConfig({ automock: enabled });
+}
+
+/**
+ * Checks if user modules imported now get replaced by their automatic mock
+ * @returns True when automock is enabled
+ */
+export function isAutomockEnabled(): boolean {
+  return configRegistry.getConfig().automock;
+}
+
+/**
+ * Gets the URL of the module replacing an actual module with its automatic mock
+ * @param url URL of the actual module
+ * @param required Whether the module is loaded with require()
+ * @returns URL of the mock module
+ */
+export function toAutomockURL(url: string, required: boolean): string {
+  return `${url}${AUTOMOCK_QUERY}${required ? 'require' : 'import'}`;
+}
+
+/**
+ * Loads the actual module and generates its automatic mock, once for each module
+ * @param url URL of the actual module
+ * @returns Automatic mock, with the names of the actual exports
+ */
+function loadAutomock(url: string) {
+  let automock = automocks.get(url);
+  if (!automock) {
+    const file = fileURLToPath(url);
+    const actual = moduleRegistry.withActualModules(() => requireModule(file, file));
+    const names = actual !== null && typeof actual === 'object' || typeof actual === 'function' ? Object.keys(actual) : [];
+    automock = { exports: generateAutomock(actual), isESM: isESModule(actual), names };
+    automocks.set(url, automock);
+  }
+  return automock;
+}
+
+/**
+ * Generates the source of the module replacing an actual module with its automatic mock
+ * @param url URL of the actual module
+ * @param required Whether the module is loaded with require()
+ * @returns Format and source of the mock module
+ */
+function generateMockModule(url: string, required: boolean): { format: 'commonjs' | 'module'; source: string } {
+  const { isESM, names } = loadAutomock(url);
+  const accessor = `globalThis[Symbol.for(${JSON.stringify(AUTOMOCK_ACCESSOR.description)})](${JSON.stringify(url)})`;
+  if (required && !isESM) {
+    return { format: 'commonjs', source: `module.exports = ${accessor};\n` };
+  }
+
+  const lines = [`const mock = ${accessor};`];
+  lines.push(isESM ? 'export default mock.default;' : 'export default mock;');
+  names.filter(name => name !== 'default' && name !== '__esModule').forEach((name, index) => {
+    lines.push(`const export${index} = mock[${JSON.stringify(name)}];`);
+    lines.push(`export { export${index} as ${JSON.stringify(name)} };`);
+  });
+  return { format: 'module', source: lines.join('\n') + '\n' };
+}
+
+/**
+ * Loads the module replacing an actual module with its automatic mock
+ * @param url URL of the module being loaded
+ * @returns Format and source of the mock module, undefined for other modules
+ */
+export function loadAutomockModule(url: string): { format: 'commonjs' | 'module'; source: string } | undefined {
+  const queryIndex = url.indexOf(AUTOMOCK_QUERY);
+  if (queryIndex === -1) {
+    return undefined;
+  }
+  const required = url.slice(queryIndex + AUTOMOCK_QUERY.length) === 'require';
+  return generateMockModule(url.slice(0, queryIndex), required);
+}
+
+/**
+ * Converts module exports to the default and named exports of a module mock
+ * @param moduleExports Exports of the mock
+ * @param isESM Whether the exports are the ones of an ES module
+ * @returns Options for mock.module()
+ */
+export function toMockModuleOptions(moduleExports: any, isESM: boolean) {
+  if (!isESM) {
+    return { defaultExport: moduleExports, namedExports: moduleExports };
+  }
+  const { default: defaultExport, ...namedExports } = moduleExports;
+  return { defaultExport, namedExports };
+}
+
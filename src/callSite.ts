@@ -0,0 +1,103 @@
+/**
+ * Helpers to find where the adapter was called from
+ *
+ * Several Jest APIs depend on the location of their caller: inline snapshots are
+ * written back at the call site, and module specifiers are resolved against the
+ * test file. This module walks the V8 stack frames, skipping the ones of the adapter
+ * itself, of node internals and of the libraries it is built on.
+ */
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+/**
+ * Location of a call in a source file
+ */
+export interface CallLocation {
+  // Absolute path of the file
+  file: string;
+  // 1-based line number
+  line: number;
+  // 1-based column number
+  column: number;
+}
+
+// Location at the end of a V8 stack frame, like "at fn (file:///test.js:1:2)" or "at /test.js:1:2"
+const STACK_FRAME_REGEX = /^\s*at (?:.*? \()?(.+?):(\d+):(\d+)\)?$/;
+
+/**
+ * Converts the file name of a stack frame to a path
+ * @param fileName File name or URL reported by V8
+ * @returns Absolute path, or undefined for frames without a file
+ */
+function toPath(fileName: string): string | undefined {
+  if (fileName.startsWith('file://')) {
+    return fileURLToPath(fileName);
+  }
+  return path.isAbsolute(fileName) ? fileName : undefined;
+}
+
+/**
+ * Parses the locations of the frames of a stack trace
+ * @param stack Stack trace, as formatted by V8
+ * @returns Locations of the frames with a file, from the innermost one
+ */
+function parseStack(stack: string): CallLocation[] {
+  const locations: CallLocation[] = [];
+  for (const line of stack.split('\n')) {
+    const match = STACK_FRAME_REGEX.exec(line);
+    const file = match && toPath(match[1]);
+    if (file) {
+      locations.push({ file, line: Number(match[2]), column: Number(match[3]) });
+    }
+  }
+  return locations;
+}
+
+/**
+ * Captures the current stack trace
+ * @returns Stack trace, the first frame being the caller of this function
+ */
+function captureStack(): string {
+  const previousLimit = Error.stackTraceLimit;
+  try {
+    Error.stackTraceLimit = 50;
+    const holder: { stack?: string } = {};
+    Error.captureStackTrace(holder, captureStack);
+    return holder.stack ?? '';
+  } finally {
+    Error.stackTraceLimit = previousLimit;
+  }
+}
+
+// Directory of the adapter, found from the stack the first time it is needed
+let adapterDir: string | undefined;
+
+/**
+ * Checks if a file belongs to the adapter itself
+ * @param file Absolute path of the file
+ * @returns True for files in the directory of the adapter
+ */
+export function isAdapterCode(file: string): boolean {
+  // The first frame is in this module, its directory holds the whole adapter
+  adapterDir ??= path.dirname(parseStack(captureStack())[0]?.file ?? '');
+  return file.startsWith(adapterDir + path.sep);
+}
+
+/**
+ * Checks if a file belongs to the user code, rather than to the adapter or a dependency
+ * @param file Absolute path of the file
+ * @returns True for files outside the adapter and node_modules
+ */
+export function isUserCode(file: string): boolean {
+  return !isAdapterCode(file) && !file.split(path.sep).includes('node_modules');
+}
+
+/**
+ * Finds the location of the user code that called into the adapter
+ * @param error Error created when the adapter was called, for matchers running after a
+ * promise settled, when the caller is no longer on the stack
+ * @returns Location of the first frame outside the adapter, node internals and node_modules
+ */
+export function getCallerLocation(error?: Error): CallLocation | undefined {
+  return parseStack(error?.stack ?? captureStack()).find(location => isUserCode(location.file));
+}
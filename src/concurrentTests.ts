@@ -0,0 +1,153 @@
+/**
+ * Implementation of Jest's concurrent tests
+ *
+ * node:test runs the tests of a describe block one after the other: it can only make a
+ * whole block concurrent, and never the top level of a file. So, like Jest does, the bodies
+ * of consecutive concurrent tests start together once node:test reaches the first of them,
+ * at most maxConcurrency at a time, and node:test then waits for the body of each test in
+ * turn. Tests that are not concurrent still run alone, once the concurrent tests declared
+ * before them are over.
+ */
+import { configRegistry } from './registry.js';
+
+// Flags making node:test filter tests out, whose bodies must then not start ahead of it
+const FILTER_FLAGS = ['--test-only', '--test-name-pattern', '--test-skip-pattern'];
+
+/**
+ * Context given to the body of a concurrent test, which starts before node:test creates the
+ * context of the test, calling the functions passed to after() once the body is over
+ */
+class ConcurrentTestContext {
+  private readonly afterFns: Function[] = [];
+
+  constructor(readonly name: string, readonly filePath: string | undefined) {}
+
+  after(fn: Function) {
+    this.afterFns.push(fn);
+  }
+
+  async runAfterFns() {
+    for (const fn of this.afterFns) {
+      await fn(this);
+    }
+  }
+}
+
+/**
+ * Consecutive concurrent tests of a describe block, or of the top level of a file
+ */
+class ConcurrentGroup {
+  private readonly bodies: (() => Promise<void>)[] = [];
+  private results: Promise<void>[] | undefined;
+
+  get started() {
+    return this.results !== undefined;
+  }
+
+  /**
+   * Adds the body of a test to the group
+   * @param body Body of the test
+   * @returns Function waiting for the body, starting the bodies of the group on first call
+   */
+  add(body: () => Promise<void>): () => Promise<void> {
+    const index = this.bodies.push(body) - 1;
+    return () => this.start()[index];
+  }
+
+  private start(): Promise<void>[] {
+    if (!this.results) {
+      this.results = runWithLimit(this.bodies, configRegistry.getConfig().maxConcurrency);
+    }
+    return this.results;
+  }
+}
+
+// Group receiving the concurrent tests registered next, in the block being registered
+let currentGroup: ConcurrentGroup | undefined;
+
+/**
+ * Runs functions, at most limit of them at a time, in order
+ * @param fns Functions to run
+ * @param limit Maximum number of functions running at the same time
+ * @returns Promise of the result of each function
+ */
+function runWithLimit(fns: (() => Promise<void>)[], limit: number): Promise<void>[] {
+  const settlers: { resolve: () => void; reject: (error: unknown) => void }[] = [];
+  const results = fns.map((_, index) => {
+    const result = new Promise<void>((resolve, reject) => {
+      settlers[index] = { resolve, reject };
+    });
+    // Tests failing before node:test waits for them are not unhandled rejections
+    result.catch(() => {});
+    return result;
+  });
+
+  let next = 0;
+  const runNext = async () => {
+    while (next < fns.length) {
+      const index = next++;
+      try {
+        await fns[index]();
+        settlers[index].resolve();
+      } catch (error) {
+        settlers[index].reject(error);
+      }
+    }
+  };
+  for (let i = 0; i < Math.min(limit, fns.length); i++) {
+    runNext();
+  }
+  return results;
+}
+
+/**
+ * Checks if node:test filters tests out, with --test-only or name patterns
+ * @returns True when filtering
+ */
+function isFiltering(): boolean {
+  return process.execArgv.some(arg => FILTER_FLAGS.some(flag => arg === flag || arg.startsWith(`${flag}=`)));
+}
+
+/**
+ * Adds a concurrent test to the group of the concurrent tests registered right before it
+ * @param name Name of the test
+ * @param filePath Path of the test file
+ * @param fn Body of the test, called with a context of its own
+ * @returns Function to register with node:test, waiting for the body
+ */
+export function addConcurrentTest(name: string, filePath: string | undefined, fn: (context: any) => unknown): () => Promise<void> {
+  // When node:test filters tests out, each test runs alone once reached
+  if (!currentGroup || currentGroup.started || isFiltering()) {
+    currentGroup = new ConcurrentGroup();
+  }
+  return currentGroup.add(async () => {
+    const context = new ConcurrentTestContext(name, filePath);
+    try {
+      await fn(context);
+    } finally {
+      await context.runAfterFns();
+    }
+  });
+}
+
+/**
+ * Ends the group of concurrent tests, when a test that is not concurrent or a describe
+ * block is registered
+ */
+export function endConcurrentGroup() {
+  currentGroup = undefined;
+}
+
+/**
+ * Registers the tests of a describe block, whose concurrent tests get groups of their own
+ * @param fn Function registering the tests
+ */
+export function registerBlock(fn: () => void) {
+  const outerGroup = currentGroup;
+  currentGroup = undefined;
+  try {
+    fn();
+  } finally {
+    currentGroup = outerGroup;
+  }
+}
@@ -0,0 +1,338 @@
+/**
+ * Configuration of the adapter
+ *
+ * Options mirror the Jest configuration options with the same name. They start from
+ * Jest's defaults, are read from the Jest configuration of the project, can be overridden
+ * through environment variables (useful as node does not accept Jest's command line flags)
+ * and programmatically with configure().
+ */
+import { createRequire } from 'node:module';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type { FakeTimersConfig } from './fakeTimers.js';
+import { loadJestConfig } from './jestConfig.js';
+import { configRegistry } from './registry.js';
+
+/**
+ * Options supported by the adapter
+ */
+export interface AdapterConfig {
+  // Maximum number of consecutive concurrent tests running at the same time, like --maxConcurrency
+  maxConcurrency: number;
+  // Default timeout of tests and hooks in milliseconds, like testTimeout
+  testTimeout: number;
+  // Paths of the modules exporting snapshot serializers, relative to the working directory, like snapshotSerializers
+  snapshotSerializers: string[];
+  // Whether obsolete snapshots and snapshot files are removed when updating snapshots, like -u does in Jest
+  removeObsoleteSnapshots: boolean;
+  // Path of the module resolving snapshot files from test files and back, like snapshotResolver
+  snapshotResolver?: string;
+  // Whether new snapshots are not written and fail instead, like --ci, defaults to true when CI is set
+  ci: boolean;
+  // Whether all snapshots are written, like --test-update-snapshots, which Node.js 22.3 added
+  updateSnapshots: boolean;
+  // Whether user modules imported by test files are replaced by automatic mocks, like automock
+  automock: boolean;
+  // Whether the calls of every mock are cleared before each test, like clearMocks
+  clearMocks: boolean;
+  // Whether every mock is reset before each test, like resetMocks
+  resetMocks: boolean;
+  // Whether spies and replaced properties are restored before each test, like restoreMocks
+  restoreMocks: boolean;
+  // Paths of the modules loaded before each test file, like setupFiles
+  setupFiles: string[];
+  // Paths of the modules loaded before each test file after setupFiles, like setupFilesAfterEnv
+  setupFilesAfterEnv: string[];
+  // Options of the fake timers, installed before each test file with enableGlobally, like fakeTimers
+  fakeTimers: FakeTimersConfig & { enableGlobally?: boolean };
+  // Whether the tests of each file and describe block run in a random order, from the seed, like randomize
+  randomize: boolean;
+  // Seed of the random order and of jest.getSeed(), generated for each file when not set, like --seed
+  seed?: number;
+}
+
+// Environment variables that can be used to set each option
+const environmentVariables: Record<keyof AdapterConfig, string> = {
+  maxConcurrency: 'JEST_COMPAT_MAX_CONCURRENCY',
+  testTimeout: 'JEST_COMPAT_TEST_TIMEOUT',
+  snapshotSerializers: 'JEST_COMPAT_SNAPSHOT_SERIALIZERS',
+  removeObsoleteSnapshots: 'JEST_COMPAT_REMOVE_OBSOLETE_SNAPSHOTS',
+  snapshotResolver: 'JEST_COMPAT_SNAPSHOT_RESOLVER',
+  ci: 'JEST_COMPAT_CI',
+  updateSnapshots: 'JEST_COMPAT_UPDATE_SNAPSHOTS',
+  automock: 'JEST_COMPAT_AUTOMOCK',
+  clearMocks: 'JEST_COMPAT_CLEAR_MOCKS',
+  resetMocks: 'JEST_COMPAT_RESET_MOCKS',
+  restoreMocks: 'JEST_COMPAT_RESTORE_MOCKS',
+  setupFiles: 'JEST_COMPAT_SETUP_FILES',
+  setupFilesAfterEnv: 'JEST_COMPAT_SETUP_FILES_AFTER_ENV',
+  fakeTimers: 'JEST_COMPAT_FAKE_TIMERS',
+  randomize: 'JEST_COMPAT_RANDOMIZE',
+  seed: 'JEST_COMPAT_SEED'
+};
+
+/**
+ * Validates a numeric option, which must be a positive integer
+ * @param name Name of the option
+ * @param value Value to validate
+ * @returns The value as a number
+ */
+function positiveInteger(name: string, value: unknown): number {
+  const number = typeof value === 'string' ? Number(value) : value;
+  if (typeof number !== 'number' || !Number.isInteger(number) || number < 1) {
+    throw new Error(`Invalid value for option "${name}": expected a positive integer, received ${JSON.stringify(value)}`);
+  }
+  return number;
+}
+
+/**
+ * Validates a seed option, which must be an integer in the 32-bit range like Jest seeds
+ * @param name Name of the option
+ * @param value Value to validate
+ * @returns The value as a number
+ */
+function seed(name: string, value: unknown): number {
+  const number = typeof value === 'string' ? Number(value) : value;
+  if (typeof number !== 'number' || !Number.isInteger(number) || number < -0x80000000 || number > 0x7fffffff) {
+    throw new Error(`Invalid value for option "${name}": expected an integer between -2147483648 and 2147483647, received ${JSON.stringify(value)}`);
+  }
+  return number;
+}
+
+/**
+ * Validates a timeout option, which must be a positive integer or Infinity
+ * @param name Name of the option
+ * @param value Value to validate
+ * @returns The value as a number
+ */
+function timeout(name: string, value: unknown): number {
+  const number = typeof value === 'string' ? Number(value) : value;
+  if (number === Infinity) {
+    return number;
+  }
+  if (typeof number !== 'number' || !Number.isInteger(number) || number < 1) {
+    throw new Error(`Invalid value for option "${name}": expected a positive integer or Infinity, received ${JSON.stringify(value)}`);
+  }
+  return number;
+}
+
+/**
+ * Validates a list option, which must be an array of strings or a comma separated string
+ * @param name Name of the option
+ * @param value Value to validate
+ * @returns The value as an array
+ */
+function stringList(name: string, value: unknown): string[] {
+  const list = typeof value === 'string' ? value.split(',').map(item => item.trim()).filter(Boolean) : value;
+  if (!Array.isArray(list) || !list.every(item => typeof item === 'string')) {
+    throw new Error(`Invalid value for option "${name}": expected an array of strings, received ${JSON.stringify(value)}`);
+  }
+  return list;
+}
+
+/**
+ * Validates a boolean option, also accepting "true" and "false" strings
+ * @param name Name of the option
+ * @param value Value to validate
+ * @returns The value as a boolean
+ */
+function boolean(name: string, value: unknown): boolean {
+  const bool = value === 'true' ? true : value === 'false' ? false : value;
+  if (typeof bool !== 'boolean') {
+    throw new Error(`Invalid value for option "${name}": expected a boolean, received ${JSON.stringify(value)}`);
+  }
+  return bool;
+}
+
+/**
+ * Validates a string option
+ * @param name Name of the option
+ * @param value Value to validate
+ * @returns The value
+ */
+function string(name: string, value: unknown): string {
+  if (typeof value !== 'string') {
+    throw new Error(`Invalid value for option "${name}": expected a string, received ${JSON.stringify(value)}`);
+  }
+  return value;
+}
+
+// Options of fakeTimers, the ones of useFakeTimers() and enableGlobally
+const FAKE_TIMERS_OPTIONS = ['advanceTimers', 'doNotFake', 'enableGlobally', 'now', 'timerLimit'];
+
+/**
+ * Validates the fake timers option, an object or its JSON
+ * @param name Name of the option
+ * @param value Value to validate
+ * @returns The value as an object
+ */
+function fakeTimersConfig(name: string, value: unknown): AdapterConfig['fakeTimers'] {
+  let options = value;
+  if (typeof value === 'string') {
+    try {
+      options = JSON.parse(value);
+    } catch {
+      throw new Error(`Invalid value for option "${name}": expected a JSON object, received ${JSON.stringify(value)}`);
+    }
+  }
+  if (typeof options !== 'object' || options === null || Array.isArray(options)) {
+    throw new Error(`Invalid value for option "${name}": expected an object, received ${JSON.stringify(value)}`);
+  }
+  const unknownOption = Object.keys(options).find(option => !FAKE_TIMERS_OPTIONS.includes(option));
+  if (unknownOption) {
+    throw new Error(`Invalid value for option "${name}": unknown option "${unknownOption}", expected one of ${FAKE_TIMERS_OPTIONS.join(', ')}`);
+  }
+  return options as AdapterConfig['fakeTimers'];
+}
+
+// Validation of each option
+const validators: { [K in keyof AdapterConfig]-?: (name: string, value: unknown) => AdapterConfig[K] } = {
+  maxConcurrency: positiveInteger,
+  testTimeout: timeout,
+  snapshotSerializers: stringList,
+  removeObsoleteSnapshots: boolean,
+  snapshotResolver: string,
+  ci: boolean,
+  updateSnapshots: boolean,
+  automock: boolean,
+  clearMocks: boolean,
+  resetMocks: boolean,
+  restoreMocks: boolean,
+  setupFiles: stringList,
+  setupFilesAfterEnv: stringList,
+  fakeTimers: fakeTimersConfig,
+  randomize: boolean,
+  seed
+};
+
+/**
+ * Validates the given options
+ * @param options Options to validate, named after the option or its environment variable
+ * @param names Names to report in errors for each option
+ * @returns Validated options, without the ones not set
+ */
+function validate(options: Partial<Record<keyof AdapterConfig, unknown>>, names: Record<keyof AdapterConfig, string>): Partial<AdapterConfig> {
+  const validated: Partial<Record<keyof AdapterConfig, unknown>> = {};
+  for (const name of Object.keys(validators) as (keyof AdapterConfig)[]) {
+    if (options[name] !== undefined) {
+      validated[name] = validators[name](names[name], options[name]);
+    }
+  }
+  return validated as Partial<AdapterConfig>;
+}
+
+/**
+ * Detects continuous integration environments, where CI is set like is-ci checks for Jest
+ * @returns True when running in CI
+ */
+function isCI(): boolean {
+  const ci = process.env.CI;
+  return !!ci && ci !== 'false' && ci !== '0';
+}
+
+/**
+ * Reads the options set through environment variables
+ * @returns Options found in the environment
+ */
+function readEnvironmentConfig(): Partial<AdapterConfig> {
+  const options: Partial<Record<keyof AdapterConfig, unknown>> = {};
+  for (const name of Object.keys(environmentVariables) as (keyof AdapterConfig)[]) {
+    const value = process.env[environmentVariables[name]];
+    if (value) {
+      options[name] = value;
+    }
+  }
+  return validate(options, environmentVariables);
+}
+
+/**
+ * Sets adapter options, only the given options are changed
+ * @param options Options to set
+ */
+export function configure(options: Partial<AdapterConfig>) {
+  const names = Object.fromEntries(Object.keys(validators).map(name => [name, name])) as Record<keyof AdapterConfig, string>;
+  configRegistry.setConfig(validate(options, names));
+}
+
+/**
+ * Gets the current adapter options
+ * @returns Current options
+ */
+export function getConfig(): Readonly<AdapterConfig> {
+  return configRegistry.getConfig();
+}
+
+/**
+ * Loads a module named in the configuration, like a snapshot serializer
+ * @param modulePath Path of the module, relative to the working directory, or package name
+ * @returns Exports of the module, its default export for ES modules
+ */
+export function requireConfiguredModule(modulePath: string): any {
+  const require = createRequire(path.join(process.cwd(), 'index.js'));
+  const exported = require(modulePath);
+  const isModule = exported?.__esModule || exported?.[Symbol.toStringTag] === 'Module';
+  return isModule && exported.default !== undefined ? exported.default : exported;
+}
+
+/**
+ * Reads the options set in the Jest configuration of the project, warning about the
+ * options the adapter does not support
+ * @returns Options found in the Jest configuration
+ */
+function readJestConfig(): Partial<AdapterConfig> {
+  const jestConfig = loadJestConfig();
+  if (!jestConfig) {
+    return {};
+  }
+  const configFile = path.relative(process.cwd(), jestConfig.configPath);
+  if (jestConfig.unsupportedOptions.length > 0) {
+    console.warn(
+      `Warning: the following options of the Jest configuration in ${configFile} are not supported ` +
+      `by @simonegianni/node-test-jest-compat and are ignored: ${jestConfig.unsupportedOptions.join(', ')}`
+    );
+  }
+  const names = Object.fromEntries(Object.keys(validators).map(name => [name, `${name}" in "${configFile}`])) as Record<keyof AdapterConfig, string>;
+  return validate(jestConfig.options, names);
+}
+
+// Errors of require() for ES modules it cannot load: without require(esm), or using top-level await
+const REQUIRE_ESM_ERRORS = ['ERR_REQUIRE_ESM', 'ERR_REQUIRE_ASYNC_MODULE'];
+
+// import(), which TypeScript would turn into require() in the CommonJS build
+const importModule = new Function('specifier', 'return import(specifier)') as (specifier: string) => Promise<unknown>;
+
+/**
+ * Loads the setup files, setupFiles first then setupFilesAfterEnv, like Jest does before each test file
+ *
+ * Setup files are required, so that they run before the test file is evaluated. From the
+ * first ES module that require() cannot load, the setup files are imported instead, which
+ * has to be awaited before the tests run.
+ * @returns Promise of the import of the setup files left, or undefined when they are all loaded
+ */
+export function loadSetupFiles(): Promise<void> | undefined {
+  const { setupFiles, setupFilesAfterEnv } = configRegistry.getConfig();
+  const require = createRequire(path.join(process.cwd(), 'index.js'));
+  const pending = [...setupFiles, ...setupFilesAfterEnv];
+  for (; pending.length > 0; pending.shift()) {
+    try {
+      require(pending[0]);
+    } catch (error: any) {
+      if (!REQUIRE_ESM_ERRORS.includes(error?.code)) {
+        throw error;
+      }
+      return (async () => {
+        for (const setupFile of pending) {
+          await importModule(pathToFileURL(require.resolve(setupFile)).href);
+        }
+      })();
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Initializes the configuration from the Jest configuration and the environment
+ */
+export function initializeConfig() {
+  configure({ ci: isCI(), ...readJestConfig(), ...readEnvironmentConfig() });
+}
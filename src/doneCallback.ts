@@ -0,0 +1,138 @@
+/**
+ * Implementation of Jest's done callback style for tests and hooks
+ *
+ * Jest decides whether a test or hook is callback style by looking at the number of
+ * parameters of its function: a function declaring a parameter gets a done callback
+ * and completes when it is called. This module turns such functions into promise
+ * returning functions, which is what node:test expects when no callback is declared.
+ * Functions declaring two parameters are written for node:test, and get the test
+ * context before the done callback, as node:test gives them.
+ */
+import { format as prettyFormat } from 'pretty-format';
+
+/**
+ * Jest's done callback, also exposing done.fail as in Jasmine
+ */
+export interface DoneCallback {
+  (reason?: any): void;
+  fail: (error?: any) => void;
+}
+
+/**
+ * Converts the reason passed to done into an error
+ * @param reason Reason passed to done
+ * @returns Error to fail the test with
+ */
+function toError(reason: any): Error {
+  return reason instanceof Error ? reason : new Error(`Failed: ${prettyFormat(reason, { maxDepth: 3 })}`);
+}
+
+/**
+ * Checks if a value is a promise or thenable
+ * @param value Value to check
+ * @returns True if the value is a promise
+ */
+function isPromise(value: any): boolean {
+  return !!value && (typeof value === 'object' || typeof value === 'function') && typeof value.then === 'function';
+}
+
+/**
+ * Checks if a function is async, its body running as a promise
+ * @param fn Function to check
+ * @returns True for async functions and async generators
+ */
+function isAsyncFunction(fn: Function): boolean {
+  const name = fn.constructor?.name;
+  return name === 'AsyncFunction' || name === 'AsyncGeneratorFunction';
+}
+
+/**
+ * Checks if a test or hook function expects a done callback, like Jest does from the
+ * number of its parameters
+ * @param fn Test or hook function
+ * @param argumentCount Number of arguments the function receives before done, as in .each rows
+ * @returns True if the function declares a parameter after the arguments it receives
+ */
+export function takesDoneCallback(fn: Function, argumentCount: number = 0): boolean {
+  return fn.length > argumentCount;
+}
+
+/**
+ * Creates the error of functions both taking a done callback and returning something
+ * @param returnedValue Value returned by the function
+ * @returns Error to fail the test with
+ */
+function doneAndReturnError(returnedValue: unknown): Error {
+  return new Error(
+    "Test functions cannot both take a 'done' callback and return something. " +
+    'Either use a \'done\' callback, or return a promise.\n' +
+    `Returned value: ${prettyFormat(returnedValue, { maxDepth: 3 })}`
+  );
+}
+
+/**
+ * Wraps a callback style test or hook so that it returns a promise settled by done
+ * @param fn Test or hook function, returned unchanged if it does not take a done callback
+ * @returns Function returning a promise, or the original function
+ */
+export function withDoneCallback(fn: Function): Function {
+  if (isAsyncFunction(fn) && takesDoneCallback(fn)) {
+    // Rejected without running it, like Jest does
+    return () => Promise.reject(doneAndReturnError(Promise.resolve()));
+  }
+  if (!takesDoneCallback(fn)) {
+    return fn;
+  }
+
+  // Functions written for node:test take the test context first
+  const takesTestContext = fn.length > 1;
+
+  return function (this: any, context: unknown) {
+    return new Promise<void>((resolve, reject) => {
+      let called = false;
+      let settled = false;
+
+      const done = ((reason?: any) => {
+        if (called) {
+          const error = new Error('Expected done to be called once, but it was called multiple times.' +
+            (reason ? ` Reason: ${prettyFormat(reason, { maxDepth: 3 })}` : ''));
+          if (settled) {
+            // Too late to fail the test itself, node:test reports the rejection as a failure of the file
+            Promise.reject(error);
+          } else {
+            reject(error);
+          }
+          return;
+        }
+        called = true;
+        // Settle on the next tick, so that a value returned along with a synchronous
+        // call to done is still reported
+        Promise.resolve().then(() => {
+          settled = true;
+          if (reason) {
+            reject(toError(reason));
+          } else {
+            resolve();
+          }
+        });
+      }) as DoneCallback;
+
+      done.fail = (error?: any) => {
+        done(error instanceof Error ? error : new Error(error === undefined ? 'Failed' : `Failed: ${error}`));
+      };
+
+      try {
+        const returnedValue = takesTestContext ? fn.call(this, context, done) : fn.call(this, done);
+        if (returnedValue !== undefined) {
+          if (isPromise(returnedValue)) {
+            // Avoid an unhandled rejection from the returned promise, the test fails anyway
+            returnedValue.then(undefined, () => {});
+          }
+          reject(doneAndReturnError(returnedValue));
+        }
+      } catch (error) {
+        reject(error);
+      }
+    });
+  };
+}
@@ -0,0 +1,68 @@
+/**
+ * Jest-compatible expect state for the running test
+ *
+ * Jest sets currentTestName, testPath and snapshotState in the expect state before each
+ * test, where helpers and custom matchers read them. Here they are defined as getters
+ * on the shared state object, reading the state of the test running in the current
+ * async scope, so that they stay correct for concurrent tests and are cleared once
+ * the test is over. The counters of expect.assertions() and expect.hasAssertions() are
+ * kept the same way, each test counting its own assertions.
+ */
+import { expect } from 'expect';
+import { testContextRegistry } from './registry.js';
+import { snapshotTesting } from './snapshot.js';
+
+// Values set with expect.setState() outside of any test
+const fallbackState: Record<string, any> = {};
+
+/**
+ * Defines a property of the expect state that reads from the running test
+ * @param state Shared expect state object
+ * @param name Name of the property
+ * @param get Function computing the value, when the running test state does not hold one
+ */
+function defineTestProperty(state: any, name: string, get: (testState: any) => any) {
+  // Values set before the property is defined still apply outside of any test
+  fallbackState[name] = state[name];
+  Object.defineProperty(state, name, {
+    configurable: true,
+    enumerable: true,
+    get: () => {
+      const testState = testContextRegistry.getCurrentTestState();
+      if (!testState) {
+        return fallbackState[name];
+      }
+      return name in testState ? testState[name as keyof typeof testState] : get(testState);
+    },
+    set: (value: any) => {
+      // Values set by expect.setState() apply to the running test only
+      const testState: any = testContextRegistry.getCurrentTestState();
+      if (testState) {
+        testState[name] = value;
+      } else {
+        fallbackState[name] = value;
+      }
+    }
+  });
+}
+
+/**
+ * Installs the test state properties on the expect state
+ */
+export function initializeExpectState() {
+  const state = expect.getState();
+  defineTestProperty(state, 'currentTestName', () => undefined);
+  defineTestProperty(state, 'testPath', () => undefined);
+  defineTestProperty(state, 'snapshotState', testState =>
+    testState.testPath ? snapshotTesting.getSnapshotState(testState.testPath) : undefined
+  );
+  
+  // Assertion counters, each test starting from the values expect resets them to
+  defineTestProperty(state, 'assertionCalls', () => 0);
+  defineTestProperty(state, 'expectedAssertionsNumber', () => null);
+  defineTestProperty(state, 'expectedAssertionsNumberError', () => undefined);
+  defineTestProperty(state, 'isExpectingAssertions', () => false);
+  defineTestProperty(state, 'isExpectingAssertionsError', () => undefined);
+  // Errors are pushed to the list, which must be kept in the test state
+  defineTestProperty(state, 'suppressedErrors', testState => (testState.suppressedErrors = []));
+}
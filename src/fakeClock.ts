@@ -0,0 +1,621 @@
+/**
+ * Fake clock owning its own timer queue, used by the fake timers
+ *
+ * The clock replaces the global timer functions, Date and the other time sources, and
+ * keeps the timers they schedule in its queue until time is advanced. Callbacks queued
+ * with process.nextTick() and queueMicrotask() become jobs, run before each timer and when
+ * time is advanced. Like in Jest, node:timers and timers/promises are not replaced.
+ */
+import timers from 'node:timers';
+
+// Time sources the clock can replace, named like the doNotFake option of Jest
+export const FAKEABLE_APIS = [
+  'Date',
+  'hrtime',
+  'nextTick',
+  'performance',
+  'queueMicrotask',
+  'requestAnimationFrame',
+  'cancelAnimationFrame',
+  'setImmediate',
+  'clearImmediate',
+  'setInterval',
+  'clearInterval',
+  'setTimeout',
+  'clearTimeout'
+] as const;
+
+export type FakeableAPI = typeof FAKEABLE_APIS[number];
+
+// Real time sources, kept before any of them is replaced
+const RealDate = Date;
+const realPerformanceNow = performance.now.bind(performance);
+const {
+  setInterval: realSetInterval,
+  setImmediate: realSetImmediate,
+  clearInterval: realClearInterval,
+  clearTimeout: realClearTimeout,
+  clearImmediate: realClearImmediate
+} = timers;
+const realNextTick = process.nextTick;
+const realQueueMicrotask = queueMicrotask;
+
+// Duration of an animation frame, at 60 frames per second
+const FRAME_DURATION = 16;
+
+// Largest delay of node timers, longer delays are set to 1ms like node does
+const MAX_DELAY = 2 ** 31 - 1;
+
+/**
+ * Timer scheduled on the clock
+ */
+interface Timer {
+  id: number;
+  callback: Function;
+  args: any[];
+  delay: number;
+  callAt: number;
+  interval: boolean;
+  immediate: boolean;
+}
+
+/**
+ * Callback queued with process.nextTick() or queueMicrotask()
+ */
+interface Job {
+  callback: Function;
+  args: any[];
+}
+
+/**
+ * Handle of a fake timer, with the methods of the Timeout and Immediate objects of node
+ */
+class FakeTimerHandle {
+  constructor(private readonly clock: FakeClock, readonly id: number) {}
+
+  ref() {
+    return this;
+  }
+
+  unref() {
+    return this;
+  }
+
+  hasRef() {
+    return true;
+  }
+
+  refresh() {
+    this.clock.refreshTimer(this.id);
+    return this;
+  }
+
+  [Symbol.toPrimitive]() {
+    return this.id;
+  }
+}
+
+/**
+ * Normalizes the delay of a timer like node does
+ * @param delay Delay given to the timer function
+ * @returns Delay in milliseconds
+ */
+function normalizeDelay(delay: unknown): number {
+  const number = Number(delay);
+  return !Number.isFinite(number) || number < 0 ? 0 : number > MAX_DELAY ? 1 : number;
+}
+
+/**
+ * Checks that a timer callback is a function, like node does
+ * @param callback Callback given to the timer function
+ */
+function validateCallback(callback: unknown) {
+  if (typeof callback !== 'function') {
+    throw new TypeError(`The "callback" argument must be of type function. Received ${callback === null ? 'null' : typeof callback}`);
+  }
+}
+
+/**
+ * Checks if the caller of a faked function is node itself, whose internal callbacks must
+ * not be held by the clock as node runs in the same realm as the tests
+ * @param fake Faked function, excluded from the stack
+ * @returns True for calls from the internals of node
+ */
+function isCalledByNode(fake: Function): boolean {
+  const stackTraceLimit = Error.stackTraceLimit;
+  Error.stackTraceLimit = 1;
+  const holder: { stack?: string } = {};
+  Error.captureStackTrace(holder, fake);
+  Error.stackTraceLimit = stackTraceLimit;
+  return /^\s*at (?:.* \()?node:/m.test(holder.stack ?? '');
+}
+
+/**
+ * Fake clock with its own timer queue
+ */
+export class FakeClock {
+  private monotonicNow: number;
+  private readonly timers = new Map<number, Timer>();
+  private jobs: Job[] = [];
+  private nextId = 1;
+  private restorers: (() => void)[] = [];
+  // Real interval advancing the time along with the real time, with advanceTimers
+  private realTimeInterval: ReturnType<typeof realSetInterval> | undefined;
+  // First error thrown by the callbacks of the current run, thrown once the run is over
+  private callbackError: { error: unknown } | undefined;
+  // Whether time is being advanced, timers added meanwhile running at least 1ms later
+  private duringTick = false;
+
+  /**
+   * @param now Initial system time, in milliseconds since the epoch
+   * @param loopLimit Number of timers run in one go before assuming an infinite loop
+   */
+  constructor(public now: number, private readonly loopLimit: number) {
+    // Monotonic sources go on from their real value, as they have no meaningful origin
+    this.monotonicNow = realPerformanceNow();
+  }
+
+  /**
+   * Replaces the given time sources with the ones of the clock
+   * @param apis Time sources to replace
+   */
+  install(apis: Set<FakeableAPI>) {
+    const clock = this;
+
+    if (apis.has('Date')) {
+      this.replace(globalThis, 'Date', this.createDate());
+    }
+    if (apis.has('setTimeout')) {
+      this.replace(globalThis, 'setTimeout', (callback: Function, delay?: number, ...args: any[]) =>
+        this.addTimer(callback, args, delay, { interval: false, immediate: false }));
+    }
+    if (apis.has('clearTimeout')) {
+      this.replace(globalThis, 'clearTimeout', (handle: any) => this.clearTimer(handle) || realClearTimeout(handle));
+    }
+    if (apis.has('setInterval')) {
+      this.replace(globalThis, 'setInterval', (callback: Function, delay?: number, ...args: any[]) =>
+        this.addTimer(callback, args, delay, { interval: true, immediate: false }));
+    }
+    if (apis.has('clearInterval')) {
+      this.replace(globalThis, 'clearInterval', (handle: any) => this.clearTimer(handle) || realClearInterval(handle));
+    }
+    if (apis.has('setImmediate')) {
+      this.replace(globalThis, 'setImmediate', (callback: Function, ...args: any[]) =>
+        this.addTimer(callback, args, 0, { interval: false, immediate: true }));
+    }
+    if (apis.has('clearImmediate')) {
+      this.replace(globalThis, 'clearImmediate', (handle: any) => this.clearTimer(handle) || realClearImmediate(handle));
+    }
+    if (apis.has('requestAnimationFrame')) {
+      this.replace(globalThis, 'requestAnimationFrame', (callback: Function) => {
+        const handle = this.addTimer(callback, [], this.timeToNextFrame(), { interval: false, immediate: false });
+        const timer = this.timers.get(handle.id)!;
+        // Frames get the time they were run at, as read from performance.now()
+        timer.callback = () => callback(this.monotonicNow);
+        return handle.id;
+      });
+    }
+    if (apis.has('cancelAnimationFrame')) {
+      this.replace(globalThis, 'cancelAnimationFrame', (id: number) => {
+        this.clearTimer(id);
+      });
+    }
+    if (apis.has('nextTick')) {
+      this.replace(process, 'nextTick', function nextTick(callback: Function, ...args: any[]) {
+        if (isCalledByNode(nextTick)) {
+          return realNextTick(callback, ...args);
+        }
+        validateCallback(callback);
+        clock.jobs.push({ callback, args });
+      });
+    }
+    if (apis.has('queueMicrotask')) {
+      this.replace(globalThis, 'queueMicrotask', function queueMicrotask(callback: Function) {
+        if (isCalledByNode(queueMicrotask)) {
+          return realQueueMicrotask(callback as () => void);
+        }
+        validateCallback(callback);
+        clock.jobs.push({ callback, args: [] });
+      });
+    }
+    if (apis.has('performance')) {
+      this.replace(performance, 'now', () => this.monotonicNow);
+    }
+    if (apis.has('hrtime')) {
+      this.replace(process, 'hrtime', this.createHrtime());
+    }
+  }
+
+  /**
+   * Restores the real time sources, discarding the pending timers and jobs
+   */
+  uninstall() {
+    this.restorers.reverse().forEach(restore => restore());
+    this.restorers = [];
+    this.reset();
+  }
+
+  /**
+   * Removes the pending timers and jobs
+   */
+  reset() {
+    this.timers.clear();
+    this.jobs = [];
+  }
+
+  /**
+   * Counts the pending timers and jobs
+   * @returns Number of pending timers and jobs
+   */
+  countTimers(): number {
+    return this.timers.size + this.jobs.length;
+  }
+
+  /**
+   * Sets the system time, keeping the pending timers at the same distance from it
+   * @param now New system time, in milliseconds since the epoch
+   */
+  setSystemTime(now: number) {
+    const difference = now - this.now;
+    this.now = now;
+    for (const timer of this.timers.values()) {
+      timer.callAt += difference;
+    }
+  }
+
+  /**
+   * Gets the time left before the next animation frame
+   * @returns Milliseconds to the next frame
+   */
+  timeToNextFrame(): number {
+    return FRAME_DURATION - (this.monotonicNow % FRAME_DURATION);
+  }
+
+  /**
+   * Advances the time automatically, along with the real time, keeping the process alive
+   * only while fake timers are pending, like real timers would
+   * @param delta Milliseconds of real time between each advance, and to advance the time by
+   */
+  advanceWithRealTime(delta: number) {
+    const interval = realSetInterval(() => {
+      try {
+        this.tick(delta);
+      } finally {
+        this.updateRealTimeRef();
+      }
+    }, delta);
+    this.realTimeInterval = interval;
+    this.updateRealTimeRef();
+    this.restorers.push(() => realClearInterval(interval));
+  }
+
+  /**
+   * Advances the time, running the timers due meanwhile
+   * @param ms Milliseconds to advance the time by
+   */
+  tick(ms: number) {
+    this.run(this.tickSteps(ms));
+  }
+
+  /**
+   * Advances the time, running the timers due meanwhile and letting promises settle in between
+   * @param ms Milliseconds to advance the time by
+   */
+  async tickAsync(ms: number) {
+    await this.runAsync(this.tickSteps(ms));
+  }
+
+  /**
+   * Advances the time to the first pending timer and runs it
+   */
+  next() {
+    this.run(this.nextSteps());
+  }
+
+  /**
+   * Advances the time to the first pending timer and runs it, letting promises settle first
+   */
+  async nextAsync() {
+    await this.runAsync(this.nextSteps());
+  }
+
+  /**
+   * Runs the pending timers and jobs, along with the ones they schedule, until none is left
+   */
+  runAll() {
+    this.run(this.runAllSteps());
+  }
+
+  /**
+   * Runs the pending timers and jobs, along with the ones they schedule, until none is left,
+   * letting promises settle between timers
+   */
+  async runAllAsync() {
+    await this.runAsync(this.runAllSteps());
+  }
+
+  /**
+   * Runs the timers pending now, leaving the ones they schedule pending
+   */
+  runPending() {
+    this.run(this.runPendingSteps());
+  }
+
+  /**
+   * Runs the timers pending now, leaving the ones they schedule pending, and letting
+   * promises settle between timers
+   */
+  async runPendingAsync() {
+    await this.runAsync(this.runPendingSteps());
+  }
+
+  /**
+   * Runs the pending jobs, along with the ones they queue
+   */
+  runTicks() {
+    this.run(this.jobSteps());
+  }
+
+  /**
+   * Schedules a timer again, its delay starting from the current time
+   * @param id Id of the timer
+   */
+  refreshTimer(id: number) {
+    const timer = this.timers.get(id);
+    if (timer) {
+      timer.callAt = this.now + timer.delay;
+    }
+  }
+
+  private updateRealTimeRef() {
+    if (this.timers.size > 0) {
+      this.realTimeInterval?.ref();
+    } else {
+      this.realTimeInterval?.unref();
+    }
+  }
+
+  private addTimer(callback: Function, args: any[], delay: unknown, options: { interval: boolean; immediate: boolean }): FakeTimerHandle {
+    validateCallback(callback);
+    const normalizedDelay = normalizeDelay(delay);
+    const id = this.nextId++;
+    this.timers.set(id, {
+      id,
+      callback,
+      args,
+      // Intervals run at least 1ms apart, like in node, so that they cannot loop in place
+      delay: options.interval ? Math.max(1, normalizedDelay) : normalizedDelay,
+      // Timers added while time is advanced run at least 1ms later, like in sinon, so that
+      // recursive zero-delay timers cannot keep the clock from reaching its target
+      callAt: this.now + (options.interval ? Math.max(1, normalizedDelay) : normalizedDelay || (this.duringTick ? 1 : 0)),
+      ...options
+    });
+    this.updateRealTimeRef();
+    return new FakeTimerHandle(this, id);
+  }
+
+  // Clears a fake timer, returning false for the handles of real timers set before the
+  // clock was installed, which are left to node
+  private clearTimer(handle: unknown): boolean {
+    let cleared = handle == null;
+    if (handle instanceof FakeTimerHandle) {
+      this.timers.delete(handle.id);
+      cleared = true;
+    } else if (typeof handle === 'number' || typeof handle === 'string') {
+      cleared = this.timers.delete(Number(handle));
+    }
+    this.updateRealTimeRef();
+    return cleared;
+  }
+
+  private firstTimer(until = Infinity, among?: Set<number>): Timer | undefined {
+    let first: Timer | undefined;
+    for (const timer of this.timers.values()) {
+      if (timer.callAt > until || (among && !among.has(timer.id))) {
+        continue;
+      }
+      // Earliest first, immediates before the other timers due at the same time, then in order
+      if (!first || timer.callAt < first.callAt || (timer.callAt === first.callAt && timer.immediate && !first.immediate)) {
+        first = timer;
+      }
+    }
+    return first;
+  }
+
+  // Steps of runTicks(), running the jobs only
+  private *jobSteps(): Generator<void> {
+    yield;
+    this.runJobs();
+  }
+
+  // Steps of tick(), each timer run after a step, up to the loop limit
+  private *tickSteps(ms: number): Generator<void> {
+    const target = this.now + ms;
+    const outerDuringTick = this.duringTick;
+    this.duringTick = true;
+    try {
+      for (let i = 0; ; i++) {
+        yield;
+        this.runJobs();
+        const timer = this.firstTimer(target);
+        if (!timer) {
+          break;
+        }
+        if (i >= this.loopLimit) {
+          throw this.infiniteLoopError();
+        }
+        this.advanceTo(timer.callAt);
+        this.runTimer(timer);
+      }
+    } finally {
+      this.duringTick = outerDuringTick;
+    }
+    this.advanceTo(target);
+  }
+
+  // Steps of next(), running a single timer
+  private *nextSteps(): Generator<void> {
+    const outerDuringTick = this.duringTick;
+    this.duringTick = true;
+    try {
+      yield;
+      this.runJobs();
+      const timer = this.firstTimer();
+      if (timer) {
+        this.advanceTo(timer.callAt);
+        this.runTimer(timer);
+      }
+    } finally {
+      this.duringTick = outerDuringTick;
+    }
+  }
+
+  // Steps of runAll(), up to the loop limit
+  private *runAllSteps(): Generator<void> {
+    for (let i = 0; i < this.loopLimit; i++) {
+      yield;
+      this.runJobs();
+      const timer = this.firstTimer();
+      if (!timer) {
+        return;
+      }
+      this.advanceTo(timer.callAt);
+      this.runTimer(timer);
+    }
+    throw this.infiniteLoopError();
+  }
+
+  // Steps of runPending(), running once each of the timers pending when it starts
+  private *runPendingSteps(pending = new Set(this.timers.keys())): Generator<void> {
+    for (;;) {
+      yield;
+      this.runJobs();
+      const timer = this.firstTimer(Infinity, pending);
+      if (!timer) {
+        return;
+      }
+      pending.delete(timer.id);
+      this.advanceTo(timer.callAt);
+      this.runTimer(timer);
+    }
+  }
+
+  // Runs steps synchronously, throwing the first error of the callbacks once done
+  private run(steps: Generator<void>) {
+    const outerError = this.callbackError;
+    this.callbackError = undefined;
+    try {
+      for (const _ of steps) {
+        // Nothing runs between steps, as promises cannot settle synchronously
+      }
+    } finally {
+      this.throwCallbackError(outerError);
+    }
+  }
+
+  // Runs steps, letting promises settle between them, throwing the first error of the callbacks once done
+  private async runAsync(steps: Generator<void>) {
+    const outerError = this.callbackError;
+    this.callbackError = undefined;
+    try {
+      for (const _ of steps) {
+        // The real setImmediate() runs once the microtasks queued meanwhile have run
+        await new Promise(resolve => realSetImmediate(resolve));
+      }
+    } finally {
+      this.throwCallbackError(outerError);
+    }
+  }
+
+  private throwCallbackError(outerError: { error: unknown } | undefined) {
+    const callbackError = this.callbackError;
+    this.callbackError = outerError;
+    if (callbackError) {
+      throw callbackError.error;
+    }
+  }
+
+  // Runs the pending jobs, up to the loop limit
+  private runJobs() {
+    for (let i = 0; this.jobs.length > 0; i++) {
+      if (i >= this.loopLimit) {
+        this.jobs = [];
+        throw this.infiniteLoopError();
+      }
+      const job = this.jobs.shift()!;
+      this.runCallback(job.callback, job.args);
+    }
+  }
+
+  private infiniteLoopError(): Error {
+    return new Error(`Aborting after running ${this.loopLimit} timers, assuming an infinite loop!`);
+  }
+
+  private runTimer(timer: Timer) {
+    if (timer.interval) {
+      timer.callAt += timer.delay;
+    } else {
+      this.timers.delete(timer.id);
+    }
+    this.runCallback(timer.callback, timer.args);
+    this.runJobs();
+  }
+
+  // Runs a callback, keeping its error so that the other due callbacks still run, like Jest
+  private runCallback(callback: Function, args: any[]) {
+    try {
+      callback(...args);
+    } catch (error) {
+      this.callbackError ??= { error };
+    }
+  }
+
+  private advanceTo(time: number) {
+    if (time > this.now) {
+      this.monotonicNow += time - this.now;
+      this.now = time;
+    }
+  }
+
+  private replace(target: any, name: string, fake: unknown) {
+    const hadOwnProperty = Object.prototype.hasOwnProperty.call(target, name);
+    const original = target[name];
+    target[name] = fake;
+    this.restorers.push(() => {
+      if (hadOwnProperty) {
+        target[name] = original;
+      } else {
+        delete target[name];
+      }
+    });
+  }
+
+  private createDate(): DateConstructor {
+    const clock = this;
+    // A function rather than a class, as Date() called without new gives a string
+    function FakeDate(this: unknown, ...args: any[]) {
+      if (!new.target) {
+        return new RealDate(clock.now).toString();
+      }
+      return Reflect.construct(RealDate, args.length === 0 ? [clock.now] : args, new.target);
+    }
+    FakeDate.prototype = RealDate.prototype;
+    FakeDate.now = () => clock.now;
+    FakeDate.parse = RealDate.parse;
+    FakeDate.UTC = RealDate.UTC;
+    return FakeDate as unknown as DateConstructor;
+  }
+
+  private createHrtime() {
+    const nanoseconds = () => BigInt(Math.round(this.monotonicNow * 1e6));
+    const hrtime = (previous?: [number, number]): [number, number] => {
+      let elapsed = nanoseconds();
+      if (previous) {
+        elapsed -= BigInt(previous[0]) * 1_000_000_000n + BigInt(previous[1]);
+      }
+      return [Number(elapsed / 1_000_000_000n), Number(elapsed % 1_000_000_000n)];
+    };
+    hrtime.bigint = nanoseconds;
+    return hrtime;
+  }
+}
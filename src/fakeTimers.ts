@@ -1,142 +1,180 @@
-// Implementation of Jest's fake timers using Node.js test runner's mock timers
-import { mock } from 'node:test';
-// Class to wrap Node.js's MockTimers and provide a Jest-compatible API
-export class FakeTimers {
-  private mockTimers: typeof mock.timers;
-  private isFaking: boolean = false;
-  // Node.js test runner only supports these APIs directly
-  private defaultApis = ['setTimeout', 'setInterval', 'setImmediate', 'Date'];
+// Implementation of Jest's fake timers on top of a fake clock owning its own timer queue
+import { FAKEABLE_APIS, FakeClock, FakeableAPI } from './fakeClock.js';
+import { configRegistry } from './registry.js';
+
+// Real Date, kept before fake timers replace it
+const RealDate = Date;
+
+// Default number of timers run by runAllTimers() before assuming an infinite loop, like Jest's
+const DEFAULT_TIMER_LIMIT = 100_000;
+
+// Default time advanced automatically with the advanceTimers option, like Jest's
+const DEFAULT_ADVANCE_TIME_DELTA = 20;
+
+/**
+ * Options of useFakeTimers(), like Jest's fakeTimers configuration
+ */
+export interface FakeTimersConfig {
+  // Advance the time automatically along with the real time, by 20ms or the given milliseconds
+  advanceTimers?: boolean | number;
+  // Time sources to keep real
+  doNotFake?: FakeableAPI[];
+  // Initial system time
+  now?: number | Date;
+  // Number of timers run by runAllTimers() before assuming an infinite loop
+  timerLimit?: number;
+}
 
-  constructor() {
-    this.mockTimers = mock.timers;
-    this.isFaking = false;
-  }
+// Class driving the fake clock with a Jest-compatible API
+export class FakeTimers {
+  private clock: FakeClock | undefined;
 
   // Jest API: useFakeTimers
-  useFakeTimers(config: any = {}) {
-    if (this.isFaking) {
-      this.mockTimers.reset();
+  useFakeTimers(options: FakeTimersConfig = {}) {
+    // The given options override the ones of the fakeTimers configuration
+    const { enableGlobally, ...defaults } = configRegistry.getConfig().fakeTimers;
+    const config: FakeTimersConfig = { ...defaults, ...options };
+
+    if (this.clock) {
+      this.clock.uninstall();
     }
 
-    const apis :any = config.doNotFake 
-      ? this.defaultApis.filter(api => !config.doNotFake.includes(api))
-      : this.defaultApis;
+    const doNotFake: string[] = config.doNotFake ?? [];
+    const apis = new Set<FakeableAPI>(FAKEABLE_APIS.filter(api => !doNotFake.includes(api)));
+
+    const now = config.now instanceof RealDate ? config.now.getTime() : config.now ?? RealDate.now();
 
-    const now = config.now !== undefined ? config.now : 0;
+    this.clock = new FakeClock(now, config.timerLimit ?? DEFAULT_TIMER_LIMIT);
+    this.clock.install(apis);
 
-    this.mockTimers.enable({ 
-      apis, 
-      now 
-    });
-    this.isFaking = true;
+    if (config.advanceTimers) {
+      this.clock.advanceWithRealTime(config.advanceTimers === true ? DEFAULT_ADVANCE_TIME_DELTA : config.advanceTimers);
+    }
   }
 
   // Jest API: useRealTimers
   useRealTimers() {
-    if (this.isFaking) {
-      this.mockTimers.reset();
-      this.isFaking = false;
+    if (this.clock) {
+      this.clock.uninstall();
+      this.clock = undefined;
+    }
+  }
+
+  // Jest API: runAllTicks
+  runAllTicks() {
+    if (this.ensureFakingTime()) {
+      this.clock!.runTicks();
     }
   }
 
   // Jest API: runAllTimers
   runAllTimers() {
-    this.ensureFakingTime();
-    this.mockTimers.runAll();
+    if (this.ensureFakingTime()) {
+      this.clock!.runAll();
+    }
   }
 
   // Jest API: runAllTimersAsync
   async runAllTimersAsync() {
-    this.ensureFakingTime();
-    // Node.js doesn't have a direct equivalent, but runAll should work
-    this.mockTimers.runAll();
+    if (this.ensureFakingTime()) {
+      await this.clock!.runAllAsync();
+    }
   }
 
   // Jest API: runOnlyPendingTimers
   runOnlyPendingTimers() {
-    this.ensureFakingTime();
-    // Node.js doesn't have a direct equivalent, but runAll should work
-    this.mockTimers.runAll();
+    if (this.ensureFakingTime()) {
+      this.clock!.runPending();
+    }
   }
 
   // Jest API: runOnlyPendingTimersAsync
   async runOnlyPendingTimersAsync() {
-    this.ensureFakingTime();
-    // Node.js doesn't have a direct equivalent, but runAll should work
-    this.mockTimers.runAll();
+    if (this.ensureFakingTime()) {
+      await this.clock!.runPendingAsync();
+    }
   }
 
   // Jest API: advanceTimersByTime
   advanceTimersByTime(msToRun: number) {
-    this.ensureFakingTime();
-    this.mockTimers.tick(msToRun);
+    if (this.ensureFakingTime()) {
+      this.clock!.tick(msToRun);
+    }
   }
 
   // Jest API: advanceTimersByTimeAsync
   async advanceTimersByTimeAsync(msToRun: number) {
-    this.ensureFakingTime();
-    this.mockTimers.tick(msToRun);
+    if (this.ensureFakingTime()) {
+      await this.clock!.tickAsync(msToRun);
+    }
   }
 
   // Jest API: advanceTimersToNextTimer
   advanceTimersToNextTimer(steps = 1) {
-    this.ensureFakingTime();
-    // Node.js doesn't have a direct equivalent, but we can use tick with a small value
-    for (let i = 0; i < steps; i++) {
-      this.mockTimers.tick(1);
+    if (this.ensureFakingTime()) {
+      for (let i = steps; i > 0; i--) {
+        this.clock!.next();
+        // Run the other timers due at the same time too
+        this.clock!.tick(0);
+        if (this.clock!.countTimers() === 0) {
+          break;
+        }
+      }
     }
   }
 
   // Jest API: advanceTimersToNextTimerAsync
   async advanceTimersToNextTimerAsync(steps = 1) {
-    this.ensureFakingTime();
-    // Node.js doesn't have a direct equivalent, but we can use tick with a small value
-    for (let i = 0; i < steps; i++) {
-      this.mockTimers.tick(1);
+    if (this.ensureFakingTime()) {
+      for (let i = steps; i > 0; i--) {
+        await this.clock!.nextAsync();
+        await this.clock!.tickAsync(0);
+        if (this.clock!.countTimers() === 0) {
+          break;
+        }
+      }
+    }
+  }
+
+  // Jest API: advanceTimersToNextFrame
+  advanceTimersToNextFrame() {
+    if (this.ensureFakingTime()) {
+      this.clock!.tick(this.clock!.timeToNextFrame());
     }
   }
 
   // Jest API: clearAllTimers
   clearAllTimers() {
-    this.ensureFakingTime();
-    this.mockTimers.reset();
-    // Re-enable timers after reset
-    this.mockTimers.enable({ apis: this.defaultApis as any});
+    if (this.ensureFakingTime()) {
+      this.clock!.reset();
+    }
   }
 
   // Jest API: getTimerCount
   getTimerCount() {
-    // Node.js doesn't expose a direct way to get timer count
-    // This is a placeholder implementation
-    console.warn('getTimerCount is not supported in Node.js test runner.');
-    return 0;
+    return this.ensureFakingTime() ? this.clock!.countTimers() : 0;
   }
 
   // Jest API: setSystemTime
   setSystemTime(now?: number | Date) {
-    this.ensureFakingTime();
-    const time = now instanceof Date ? now.getTime() : (now || 0);
-    this.mockTimers.setTime(time);
+    if (this.ensureFakingTime()) {
+      this.clock!.setSystemTime(now instanceof RealDate ? now.getTime() : now ?? RealDate.now());
+    }
   }
 
   // Jest API: getRealSystemTime
   getRealSystemTime() {
-    return Date.now();
+    return RealDate.now();
   }
 
   // Jest API: now
   now() {
-    if (this.isFaking) {
-      // There's no direct equivalent in Node.js, but we can use Date.now()
-      // since we're mocking Date
-      return Date.now();
-    }
-    return Date.now();
+    return this.clock ? this.clock.now : RealDate.now();
   }
 
   // Helper method to ensure fake timers are enabled
   private ensureFakingTime() {
-    if (!this.isFaking) {
+    if (!this.clock) {
       console.warn(
         'A function to advance timers was called but the timers APIs are not replaced ' +
         'with fake timers. Call `jest.useFakeTimers()` in this test file or enable ' +
@@ -144,7 +182,7 @@ export class FakeTimers {
         'in Jest configuration file.'
       );
     }
-    return this.isFaking;
+    return !!this.clock;
   }
 }
 
@@ -0,0 +1,505 @@
+/**
+ * Hoisting of module mocks above imports, like babel-jest does
+ *
+ * Imports are evaluated before the code of an ES module, so a jest.mock() call in a test
+ * file comes too late for the modules it imports. Test sources are rewritten so that the
+ * top-level jest.mock(), jest.unmock(), vi.mock(), vi.unmock() and vi.hoisted() calls run
+ * first, then the imports, and then the rest of the code.
+ *
+ * An ES module imports two parts of its source one after the other, both keeping every
+ * line and column in place: the hoisted statements, with the rest blanked out, then the
+ * body, with the hoisted statements blanked out and its imports kept, so that imported
+ * bindings stay live. In CommonJS modules, hoisted statements are wrapped in place into
+ * function declarations, called at the start of the module. Only some columns move, and
+ * an inline source map maps them back.
+ */
+import { fileURLToPath } from 'node:url';
+import { MappedSourceBuilder } from './sourceMap.js';
+import { skipBalanced, skipNonCode, SourceRange } from './sourceScanner.js';
+
+// Quick check for sources with calls to hoist
+const HOISTED_CALL_SEARCH = /\b(?:jest|vi)\s*\.\s*(?:mock|unmock|hoisted)\s*\(/;
+
+// Calls hoisted when they are a statement of their own, possibly awaited
+const HOISTED_CALL = /(await\s+)?(?:jest|vi)\s*\.\s*(mock|unmock|hoisted)\s*\(/y;
+
+// Declarations hoisted when they get the result of vi.hoisted() or the test globals
+const DECLARATION = /(?:const|let|var)\s+([\w$\s{}[\],:.]+?)\s*=\s*/y;
+
+// Require of the modules exporting the test globals, in CommonJS
+const GLOBALS_REQUIRE = /require\s*\(\s*(['"])(.*?)\1\s*\)/y;
+
+// Start of an import declaration, excluding dynamic imports and import.meta
+const IMPORT_DECLARATION = /import(?=\s*[\w${*'"])/y;
+
+// Import attributes following the module specifier
+const IMPORT_ATTRIBUTES = /\s*(with|assert)\s*(?=\{)/y;
+
+// Modules exporting the test globals, which are used by the hoisted calls and cannot be mocked
+const GLOBALS_MODULES = new Set(['@jest/globals', 'vitest', '@simonegianni/node-test-jest-compat']);
+
+// Characters after which a line break does not end a statement
+const CONTINUATION_CHARS = new Set(['.', ',', '=', '(', '[', '{', ':', '?', '+', '-', '*', '/', '%', '&', '|', '^', '!', '~', '<', '>']);
+
+// Prefix of the names of the functions wrapping the hoisted statements
+const HOISTED_FUNCTION_PREFIX = '__jestHoisted';
+
+// Query parameter of the URLs of the parts of ES modules whose module mocks are hoisted
+const HOISTED_PART_PARAM = 'jest-hoisted';
+
+// Comment linking the source map of a source
+const SOURCE_MAPPING_URL = /\/\/[#@] sourceMappingURL=.*/;
+
+/**
+ * Part of an ES module whose module mocks are hoisted: the hoisted statements, or the rest
+ */
+export type HoistedPart = 'mocks' | 'body';
+
+/**
+ * Source with statements to hoist
+ */
+interface HoistedSource {
+  // Top-level statements to rewrite
+  statements: Statement[];
+  // Index of the first statement that is not a directive
+  firstStatement: number;
+  // Statements to hoist
+  hoisted: Exclude<Statement, { kind: 'import' }>[];
+  // Names declared by the hoisted statements
+  names: string[];
+}
+
+/**
+ * Top-level statement that gets rewritten
+ */
+type Statement =
+  // Import declaration, with its clause and the range of the quoted module specifier
+  | { kind: 'import'; start: number; end: number; clause: string; specifier: SourceRange; attributes?: { keyword: string; range: SourceRange } }
+  // Call to hoist, the end being after its closing parenthesis
+  | { kind: 'call'; start: number; end: number; async: boolean }
+  // Declaration to hoist, with the range of its binding pattern and of its initializer, which
+  // is either vi.hoisted() or a require of the test globals
+  | { kind: 'declaration'; start: number; end: number; async: boolean; pattern: SourceRange; initializerStart: number; globals: boolean };
+
+/**
+ * Finds the end of a statement ending at the given index
+ * @param source Source code
+ * @param index Index after the last token of the statement
+ * @returns Index after its semicolon, or the same index at the end of a line, undefined if
+ * the statement goes on, like with a chained call
+ */
+function findStatementEnd(source: string, index: number): number | undefined {
+  let i = index;
+  while (i < source.length) {
+    const char = source[i];
+    if (char === ' ' || char === '\t' || char === '\r') {
+      i++;
+    } else if (char === '/' && (source[i + 1] === '*' || source[i + 1] === '/')) {
+      const skipped = skipNonCode(source, i);
+      if (source.slice(i, skipped).includes('\n')) {
+        return index;
+      }
+      i = skipped;
+    } else if (char === ';') {
+      return i + 1;
+    } else {
+      return char === '\n' || char === '}' ? index : undefined;
+    }
+  }
+  return index;
+}
+
+/**
+ * Parses an import declaration
+ * @param source Source code
+ * @param start Index of the import keyword
+ * @returns Import statement, undefined if it is not an import declaration
+ */
+function parseImport(source: string, start: number): Statement | undefined {
+  let i = start + 'import'.length;
+  while (i < source.length) {
+    const skipped = skipNonCode(source, i);
+    const char = source[i];
+    if (char === '"' || char === "'") {
+      const specifier = { start: i, end: skipped };
+      const clause = source.slice(start + 'import'.length, i).replace(/\bfrom\s*$/, '').trim();
+      let end = specifier.end;
+      let attributes: { keyword: string; range: SourceRange } | undefined;
+      IMPORT_ATTRIBUTES.lastIndex = end;
+      const match = IMPORT_ATTRIBUTES.exec(source);
+      if (match) {
+        const range = { start: IMPORT_ATTRIBUTES.lastIndex, end: skipBalanced(source, IMPORT_ATTRIBUTES.lastIndex) };
+        attributes = { keyword: match[1], range };
+        end = range.end;
+      }
+      return { kind: 'import', start, end: findStatementEnd(source, end) ?? end, clause, specifier, attributes };
+    }
+    if (skipped !== i) {
+      i = skipped;
+    } else if (char === '{') {
+      i = skipBalanced(source, i);
+    } else if (char === ';' || char === '(' || char === '=') {
+      return undefined;
+    } else {
+      i++;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Parses a statement to hoist
+ * @param source Source code
+ * @param start Index of the start of the statement
+ * @returns Hoisted statement, undefined for other statements
+ */
+function parseHoisted(source: string, start: number): Statement | undefined {
+  HOISTED_CALL.lastIndex = start;
+  const call = HOISTED_CALL.exec(source);
+  if (call) {
+    const callEnd = skipBalanced(source, HOISTED_CALL.lastIndex - 1);
+    return findStatementEnd(source, callEnd) === undefined ? undefined : { kind: 'call', start, end: callEnd, async: !!call[1] };
+  }
+
+  DECLARATION.lastIndex = start;
+  const declaration = DECLARATION.exec(source);
+  if (!declaration) {
+    return undefined;
+  }
+  const patternStart = start + declaration[0].indexOf(declaration[1]);
+  const pattern = { start: patternStart, end: patternStart + declaration[1].length };
+  const initializerStart = DECLARATION.lastIndex;
+
+  let callEnd: number | undefined;
+  let async = false;
+  let globals = false;
+  HOISTED_CALL.lastIndex = initializerStart;
+  GLOBALS_REQUIRE.lastIndex = initializerStart;
+  const initializer = HOISTED_CALL.exec(source);
+  if (initializer && initializer[2] === 'hoisted') {
+    callEnd = skipBalanced(source, HOISTED_CALL.lastIndex - 1);
+    async = !!initializer[1];
+  } else {
+    const required = GLOBALS_REQUIRE.exec(source);
+    if (required && GLOBALS_MODULES.has(required[2])) {
+      callEnd = GLOBALS_REQUIRE.lastIndex;
+      globals = true;
+    }
+  }
+  if (callEnd === undefined || findStatementEnd(source, callEnd) === undefined) {
+    return undefined;
+  }
+  return { kind: 'declaration', start, end: callEnd, async, pattern, initializerStart, globals };
+}
+
+/**
+ * Finds the top-level statements to rewrite
+ * @param source Source code
+ * @returns Statements to rewrite, and the index of the first statement that is not a directive
+ */
+function scanTopLevelStatements(source: string): { statements: Statement[]; firstStatement: number } {
+  const statements: Statement[] = [];
+  let firstStatement = -1;
+  let depth = 0;
+  let previous = '';
+  let lineBreak = false;
+  // A hashbang line comes before anything else
+  let i = source.startsWith('#!') ? source.indexOf('\n') + 1 || source.length : 0;
+
+  while (i < source.length) {
+    const char = source[i];
+    if (/\s/.test(char)) {
+      lineBreak ||= char === '\n';
+      i++;
+      continue;
+    }
+    if (char === '/' && (source[i + 1] === '/' || source[i + 1] === '*')) {
+      const skipped = skipNonCode(source, i);
+      lineBreak ||= source.slice(i, skipped).includes('\n');
+      i = skipped;
+      continue;
+    }
+
+    const statementStart = previous === '' || previous === ';' || previous === '}' || (lineBreak && !CONTINUATION_CHARS.has(previous));
+    if (depth === 0 && statementStart) {
+      // Directives like "use strict" must stay first
+      const isDirective = firstStatement === -1 && (char === '"' || char === "'");
+      if (!isDirective && firstStatement === -1) {
+        firstStatement = i;
+      }
+      IMPORT_DECLARATION.lastIndex = i;
+      const statement = IMPORT_DECLARATION.test(source) ? parseImport(source, i) : parseHoisted(source, i);
+      if (statement) {
+        statements.push(statement);
+        i = statement.end;
+        previous = ';';
+        lineBreak = false;
+        continue;
+      }
+    }
+
+    const skipped = skipNonCode(source, i);
+    if (skipped !== i) {
+      i = skipped;
+    } else {
+      if (char === '(' || char === '[' || char === '{') {
+        depth++;
+      } else if (char === ')' || char === ']' || char === '}') {
+        depth--;
+      }
+      i++;
+    }
+    previous = char;
+    lineBreak = false;
+  }
+  return { statements, firstStatement: firstStatement === -1 ? source.length : firstStatement };
+}
+
+/**
+ * Splits a list at its top-level commas
+ * @param list List, without its enclosing brackets
+ * @returns Items of the list, trimmed, including empty ones
+ */
+function splitList(list: string): string[] {
+  const items: string[] = [];
+  let itemStart = 0;
+  let i = 0;
+  while (i < list.length) {
+    const skipped = skipNonCode(list, i);
+    if (skipped !== i) {
+      i = skipped;
+    } else if (list[i] === '(' || list[i] === '[' || list[i] === '{') {
+      i = skipBalanced(list, i);
+    } else {
+      if (list[i] === ',') {
+        items.push(list.slice(itemStart, i).trim());
+        itemStart = i + 1;
+      }
+      i++;
+    }
+  }
+  items.push(list.slice(itemStart).trim());
+  return items;
+}
+
+/**
+ * Collects the names bound by a binding pattern
+ * @param pattern Identifier, object or array pattern
+ * @returns Bound names
+ */
+function collectBindingNames(pattern: string): string[] {
+  const trimmed = pattern.trim().replace(/^\.\.\./, '').split('=')[0].trim();
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) {
+    return trimmed ? [trimmed] : [];
+  }
+  const isObject = trimmed.startsWith('{');
+  return splitList(trimmed.slice(1, -1)).flatMap(item => {
+    // In object patterns, the binding is the value of key: value properties
+    const colon = isObject && !item.startsWith('...') ? item.indexOf(':') : -1;
+    return collectBindingNames(colon === -1 ? item : item.slice(colon + 1));
+  });
+}
+
+/**
+ * Blanks out code, keeping its line breaks
+ * @param code Code to blank out
+ * @returns Whitespace of the same length
+ */
+function blank(code: string): string {
+  return code.replace(/[^\n]/g, ' ');
+}
+
+/**
+ * Blanks out statements, keeping their line breaks and semicolons, which become empty
+ * statements separating the ones kept
+ * @param code Code to blank out
+ * @returns Whitespace and semicolons of the same length
+ */
+function blankStatements(code: string): string {
+  return code.replace(/[^\n;]/g, ' ');
+}
+
+/**
+ * Checks if an import declaration imports the test globals, which the hoisted calls use
+ * @param source Source code
+ * @param statement Import declaration
+ * @returns True for imports of the modules exporting the test globals
+ */
+function isGlobalsImport(source: string, statement: Extract<Statement, { kind: 'import' }>): boolean {
+  return GLOBALS_MODULES.has(source.slice(statement.specifier.start + 1, statement.specifier.end - 1));
+}
+
+/**
+ * Finds the statements to hoist in a source
+ * @param source Source code
+ * @returns Top-level statements, the index of the first one and the names declared by the
+ * hoisted ones, undefined when there is nothing to hoist
+ */
+function scanHoistedStatements(source: string): HoistedSource | undefined {
+  if (!HOISTED_CALL_SEARCH.test(source)) {
+    return undefined;
+  }
+  const { statements, firstStatement } = scanTopLevelStatements(source);
+  const hoisted = statements.filter((statement): statement is Exclude<Statement, { kind: 'import' }> => statement.kind !== 'import');
+  // Requires of the test globals are only hoisted along with the calls using them
+  if (hoisted.every(statement => statement.kind === 'declaration' && statement.globals)) {
+    return undefined;
+  }
+  const names = hoisted.flatMap(statement =>
+    statement.kind === 'declaration' ? collectBindingNames(source.slice(statement.pattern.start, statement.pattern.end)) : []
+  );
+  return { statements, firstStatement, hoisted, names };
+}
+
+/**
+ * Gets the URL of a part of an ES module whose module mocks are hoisted
+ * @param url URL of the module
+ * @param part Part of the module
+ * @returns URL of the part, with the query naming it
+ */
+function toHoistedPartURL(url: string, part: HoistedPart): string {
+  const partURL = new URL(url);
+  partURL.searchParams.set(HOISTED_PART_PARAM, part);
+  return partURL.href;
+}
+
+/**
+ * Gets the part of an ES module whose module mocks are hoisted a URL points to
+ * @param url URL of a module
+ * @returns Part of the module, undefined for other URLs
+ */
+export function getHoistedPart(url: string): HoistedPart | undefined {
+  if (!url.startsWith('file:')) {
+    return undefined;
+  }
+  const part = new URL(url).searchParams.get(HOISTED_PART_PARAM);
+  return part === 'mocks' || part === 'body' ? part : undefined;
+}
+
+/**
+ * Generates the part of an ES module running its hoisted statements: every other statement
+ * is blanked out, except the imports of the test globals, and the names they declare are
+ * exported for the body
+ * @param source Source code
+ * @param file Path of the module
+ * @param hoistedSource Statements of the source
+ * @returns Source of the part
+ */
+function generateMocksPart(source: string, file: string, { statements, names }: HoistedSource): string {
+  const builder = new MappedSourceBuilder(source);
+  let cursor = 0;
+  for (const statement of statements) {
+    if (statement.kind === 'import' && !isGlobalsImport(source, statement)) {
+      continue;
+    }
+    builder.appendGenerated(blankStatements(source.slice(cursor, statement.start)), cursor);
+    builder.appendOriginal(statement.start, statement.end);
+    cursor = statement.end;
+  }
+  builder.appendGenerated(blankStatements(source.slice(cursor)), cursor);
+  if (names.length > 0) {
+    builder.appendGenerated(`\nexport { ${names.join(', ')} };`, source.length);
+  }
+  // Keep the source map of the original source, lines and columns being unchanged
+  const sourceMappingURL = SOURCE_MAPPING_URL.exec(source);
+  return sourceMappingURL ? `${builder.toSource()}\n${sourceMappingURL[0]}\n` : builder.toSourceWithMap(file);
+}
+
+/**
+ * Generates the body of an ES module whose module mocks are hoisted: the hoisted statements
+ * are blanked out, and the names they declare are imported from the part running them
+ * @param source Source code
+ * @param url URL of the module
+ * @param file Path of the module
+ * @param hoistedSource Statements of the source
+ * @returns Source of the part, with a source map
+ */
+function generateBodyPart(source: string, url: string, file: string, { hoisted, firstStatement, names }: HoistedSource): string {
+  const builder = new MappedSourceBuilder(source);
+  builder.appendOriginal(0, firstStatement);
+  if (names.length > 0) {
+    builder.appendGenerated(`import { ${names.join(', ')} } from ${JSON.stringify(toHoistedPartURL(url, 'mocks'))}; `, firstStatement);
+  }
+  let cursor = firstStatement;
+  for (const statement of hoisted) {
+    builder.appendOriginal(cursor, statement.start);
+    builder.appendGenerated(blank(source.slice(statement.start, statement.end)), statement.start);
+    cursor = statement.end;
+  }
+  builder.appendOriginal(cursor, source.length);
+  // The URL of the part has a query, the source map names the original file
+  return SOURCE_MAPPING_URL.test(source) ? builder.toSource() : builder.toSourceWithMap(file);
+}
+
+/**
+ * Wraps the hoisted statements of a CommonJS module into function declarations, called at
+ * the start of the module
+ * @param source Source code
+ * @param file Path of the module
+ * @param hoistedSource Statements of the source
+ * @returns Rewritten source
+ */
+function wrapHoistedStatements(source: string, file: string, { hoisted, firstStatement, names }: HoistedSource): string {
+  // Declared bindings and hoisted calls run first, on the line of the first statement
+  const prefix = [
+    ...(names.length > 0 ? [`var ${names.join(', ')};`] : []),
+    ...hoisted.map((statement, index) => `${statement.async ? 'await ' : ''}${HOISTED_FUNCTION_PREFIX}${index}();`)
+  ].join(' ');
+
+  const builder = new MappedSourceBuilder(source);
+  builder.appendOriginal(0, firstStatement);
+  builder.appendGenerated(`${prefix} `, firstStatement);
+  let cursor = firstStatement;
+  hoisted.forEach((statement, index) => {
+    builder.appendOriginal(cursor, statement.start);
+    const declaration = `${statement.async ? 'async ' : ''}function ${HOISTED_FUNCTION_PREFIX}${index}() { `;
+    if (statement.kind === 'call') {
+      builder.appendGenerated(declaration, statement.start);
+      builder.appendOriginal(statement.start, statement.end);
+      builder.appendGenerated(' }', statement.end);
+    } else {
+      // The declaration becomes an assignment to the bindings declared with var
+      builder.appendGenerated(`${declaration}(`, statement.start);
+      builder.appendOriginal(statement.pattern.start, statement.pattern.end);
+      builder.appendGenerated(' = ', statement.pattern.end);
+      builder.appendOriginal(statement.initializerStart, statement.end);
+      builder.appendGenerated('); }', statement.end);
+    }
+    cursor = statement.end;
+  });
+  builder.appendOriginal(cursor, source.length);
+
+  // Lines are unchanged, so a source map of the original source still mostly applies
+  return SOURCE_MAPPING_URL.test(source) ? builder.toSource() : builder.toSourceWithMap(file);
+}
+
+/**
+ * Hoists the module mocks of a source above its imports
+ *
+ * The imports of an ES module are all resolved before it runs, so an ES module with
+ * statements to hoist is split in two parts, imported one after the other: the hoisted
+ * statements, then the body, with its imports kept as they are. The statements of a
+ * CommonJS module are wrapped in place and called first.
+ * @param source Source code
+ * @param url URL of the source file, with the query of the part to load
+ * @param isESM Whether the source is an ES module
+ * @returns Rewritten source, undefined when there is nothing to hoist
+ */
+export function hoistModuleMocks(source: string, url: string, isESM: boolean): string | undefined {
+  const scanned = scanHoistedStatements(source);
+  if (!scanned) {
+    return undefined;
+  }
+  const file = fileURLToPath(url);
+  if (!isESM) {
+    return wrapHoistedStatements(source, file, scanned);
+  }
+  switch (getHoistedPart(url)) {
+    case 'mocks':
+      return generateMocksPart(source, file, scanned);
+    case 'body':
+      return generateBodyPart(source, url, file, scanned);
+    default:
+      return `await import(${JSON.stringify(toHoistedPartURL(url, 'mocks'))});\nawait import(${JSON.stringify(toHoistedPartURL(url, 'body'))});\n`;
+  }
+}
@@ -1,18 +1,33 @@
 // This adapter provides compatibility between Jest/Vitest syntax and Node.js test runner
 // @ts-nocheck - We're intentionally creating a compatibility layer
 // NOTE: we need to use ".js" extension in imports for ESM compatibility
+import { after, before } from 'node:test';
 import { expect as expectLib } from 'expect';
+import { createMockFromModule, setAutomock } from './automock.js';
+import { configure, initializeConfig, loadSetupFiles } from './config.js';
+import { initializeExpectState } from './expectState.js';
 import { fakeTimers } from './fakeTimers.js';
 import { createMockFunctions } from './mockFunctions.js';
+import { initializeModuleHooks, warnWithoutModuleHooks } from './moduleHooks.js';
+import { isolateModules, isolateModulesAsync as isolateModulesInRegistry } from './moduleIsolation.js';
 import { moduleMocking } from './moduleMocking.js';
-import { mockRegistry, moduleRegistry } from './registry.js';
+import { configRegistry, mockRegistry } from './registry.js';
 import { getSeed } from './seed.js';
 import { snapshotTesting } from './snapshot.js';
 import { createTestFunctions } from './testFunctions.js';
 
+// Initialize configuration from the environment
+initializeConfig();
+
+// Initialize the module hooks replacing modules with their manual or automatic mocks
+initializeModuleHooks();
+
 // Initialize snapshot functionality
 snapshotTesting.initializeSnapshot();
 
+// Initialize the per-test expect state, read through expect.getState()
+initializeExpectState();
+
 // Create test functions using the implementation
 const { 
   test, 
@@ -28,6 +43,8 @@ const {
 const {
   fn,
   spyOn,
+  mocked,
+  replaceProperty,
   clearAllMocks,
   resetAllMocks,
   restoreAllMocks,
@@ -36,15 +53,44 @@ const {
   requireMock
 } = createMockFunctions();
 
-// Set timeout for tests (no-op implementation for compatibility)
+// Set the default timeout for tests and hooks declared afterwards
 const setTimeout = (timeout: number) => {
-  console.warn('Warning: jest.setTimeout() is not supported in @simonegianni/node-test-jest-compat. Node.js test runner uses a different timeout mechanism.');
+  configure({ testTimeout: timeout });
+  return jest;
+};
+
+// Enable and disable the automatic mocking of modules imported afterwards
+const enableAutomock = () => {
+  warnWithoutModuleHooks('jest.enableAutomock()', 'only the modules mocked with jest.mock() are replaced by their automatic mock');
+  setAutomock(true);
+  return jest;
+};
+
+const disableAutomock = () => {
+  setAutomock(false);
+  return jest;
 };
 
+// Run code before the imports, as vi.hoisted() calls are hoisted along with module mocks
+const hoisted = (factory: () => any) => factory();
+
 // Reset the module registry
 const resetModules = () => {
-  console.warn('Warning: jest.resetModules() is only partially supported in @simonegianni/node-test-jest-compat. Module cache clearing is limited.');
-  moduleRegistry.resetAllModules();
+  warnWithoutModuleHooks('jest.resetModules()', 'ES modules imported afterwards are not reloaded');
+  moduleMocking.resetModules();
+  return jest;
+};
+
+// Load modules in an isolated module registry
+const isolateModulesSync = (fn: () => void) => {
+  warnWithoutModuleHooks('jest.isolateModules()', 'ES modules imported in the callback are not isolated');
+  isolateModules(fn);
+  return jest;
+};
+
+const isolateModulesAsync = (fn: () => Promise<void>) => {
+  warnWithoutModuleHooks('jest.isolateModulesAsync()', 'ES modules imported in the callback are not isolated');
+  return isolateModulesInRegistry(fn);
 };
 
 // Use the actual Jest expect
@@ -54,6 +100,8 @@ const expect = expectLib;
 const jest = {
   fn,
   spyOn,
+  mocked,
+  replaceProperty,
   clearAllMocks,
   resetAllMocks,
   restoreAllMocks,
@@ -61,6 +109,8 @@ const jest = {
   requireActual,
   requireMock,
   resetModules,
+  isolateModules: isolateModulesSync,
+  isolateModulesAsync,
   setTimeout,
   // Add fake timers methods
   useFakeTimers: fakeTimers.useFakeTimers.bind(fakeTimers),
@@ -73,6 +123,8 @@ const jest = {
   advanceTimersByTimeAsync: fakeTimers.advanceTimersByTimeAsync.bind(fakeTimers),
   advanceTimersToNextTimer: fakeTimers.advanceTimersToNextTimer.bind(fakeTimers),
   advanceTimersToNextTimerAsync: fakeTimers.advanceTimersToNextTimerAsync.bind(fakeTimers),
+  advanceTimersToNextFrame: fakeTimers.advanceTimersToNextFrame.bind(fakeTimers),
+  runAllTicks: fakeTimers.runAllTicks.bind(fakeTimers),
   clearAllTimers: fakeTimers.clearAllTimers.bind(fakeTimers),
   getTimerCount: fakeTimers.getTimerCount.bind(fakeTimers),
   setSystemTime: fakeTimers.setSystemTime.bind(fakeTimers),
@@ -81,6 +133,10 @@ const jest = {
   // Add module mocking functionality
   mock: moduleMocking.mock,
   unmock: moduleMocking.unmock,
+  hoisted,
+  createMockFromModule,
+  enableAutomock,
+  disableAutomock,
   // Add retryTimes functionality (will be added by testFunctions)
   retryTimes: test.retryTimes,
   // Add seed functionality
@@ -102,6 +158,29 @@ global.expect = expect;
 global.jest = jest;
 global.vi = vi;
 
+// Install the fake timers of every test file when enabled globally, like Jest does
+if (configRegistry.getConfig().fakeTimers.enableGlobally) {
+  fakeTimers.useFakeTimers();
+}
+
+// Restore the real timers once the tests of the file are over
+after(() => fakeTimers.useRealTimers());
+
+// Load the setup files once the globals are available to them. The ones that have to be
+// imported are imported right away, outside of any hook so that the hooks they declare
+// apply to all the tests, and awaited before the tests run
+const setupFilesImport = loadSetupFiles();
+if (setupFilesImport) {
+  // The hook reports the failure of the import
+  setupFilesImport.catch(() => {});
+  before(() => setupFilesImport);
+}
+
+// Print the seed when randomizing, so that the order of the tests can be reproduced with the seed option
+if (configRegistry.getConfig().randomize) {
+  process.stderr.write(`Seed: ${getSeed()}\n`);
+}
+
 // Export the functions for direct import
 export {
   test,
@@ -113,7 +192,8 @@ export {
   afterAll,
   expect,
   jest,
-  vi
+  vi,
+  configure
 };
 
 // Default export for ESM
@@ -127,5 +207,6 @@ export default {
   afterAll,
   expect,
   jest,
-  vi
+  vi,
+  configure
 };
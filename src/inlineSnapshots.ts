@@ -0,0 +1,112 @@
+/**
+ * Writing inline snapshots back into the test sources
+ *
+ * Inline snapshots to write are collected while tests run, keyed by the location of
+ * the matcher call, and written when the test file is done. All the snapshots of a
+ * source file are applied in a single pass, from the last one to the first, so that
+ * earlier edits do not shift the position of later ones.
+ */
+import fs from 'node:fs';
+import type { CallLocation } from './callSite.js';
+import { escapeBacktickString, indentInlineSnapshot } from './snapshotFormat.js';
+import { indexOfPosition, scanCallArguments } from './sourceScanner.js';
+
+/**
+ * Inline snapshot waiting to be written
+ */
+interface PendingSnapshot {
+  location: CallLocation;
+  matcherName: string;
+  snapshot: string;
+}
+
+/**
+ * Replacement of a range of the source
+ */
+interface SourceEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// Snapshots to write for each file, keyed by line and column of the matcher call
+const pendingSnapshots = new Map<string, Map<string, PendingSnapshot>>();
+
+/**
+ * Schedules an inline snapshot to be written into the test source
+ * @param location Location of the matcher call
+ * @param matcherName Name of the matcher, found at the location
+ * @param snapshot Snapshot data to write
+ */
+export function scheduleInlineSnapshot(location: CallLocation, matcherName: string, snapshot: string) {
+  let fileSnapshots = pendingSnapshots.get(location.file);
+  if (!fileSnapshots) {
+    fileSnapshots = new Map();
+    pendingSnapshots.set(location.file, fileSnapshots);
+  }
+
+  const key = `${location.line}:${location.column}`;
+  const existing = fileSnapshots.get(key);
+  if (existing && existing.snapshot !== snapshot) {
+    throw new Error('Multiple inline snapshots for the same call are not supported.');
+  }
+  fileSnapshots.set(key, { location, matcherName, snapshot });
+}
+
+/**
+ * Computes the edit writing a snapshot as the last argument of its matcher call
+ * @param source Source of the test file
+ * @param pending Snapshot to write
+ * @returns Edit to apply to the source
+ */
+function computeEdit(source: string, pending: PendingSnapshot): SourceEdit {
+  const { location, matcherName, snapshot } = pending;
+  const index = indexOfPosition(source, location.line, location.column);
+  if (!source.startsWith(matcherName, index)) {
+    throw new Error(`Could not find the ${matcherName} call at ${location.file}:${location.line}:${location.column}`);
+  }
+
+  let openIndex = index + matcherName.length;
+  while (/\s/.test(source[openIndex] ?? '')) {
+    openIndex++;
+  }
+  const { args, closeIndex } = scanCallArguments(source, openIndex);
+
+  // Line up the snapshot with the line calling the matcher
+  const lineStart = source.lastIndexOf('\n', index) + 1;
+  const indentation = /^[ \t]*/.exec(source.slice(lineStart))![0];
+  const literal = '`' + indentInlineSnapshot(escapeBacktickString(snapshot), indentation) + '`';
+
+  const last = args[args.length - 1];
+  if (!last) {
+    return { start: openIndex + 1, end: closeIndex, text: literal };
+  }
+  if (/[`'"]/.test(source[last.start])) {
+    // Replace the existing snapshot
+    return { start: last.start, end: last.end, text: literal };
+  }
+  // Add the snapshot after the property matchers
+  return { start: last.end, end: last.end, text: `, ${literal}` };
+}
+
+/**
+ * Writes all the pending inline snapshots into their source files
+ * @returns Number of snapshots written
+ */
+export function saveInlineSnapshots(): number {
+  let written = 0;
+  for (const [file, fileSnapshots] of pendingSnapshots) {
+    let source = fs.readFileSync(file, 'utf8');
+    const edits = [...fileSnapshots.values()]
+      .map(pending => computeEdit(source, pending))
+      .sort((a, b) => b.start - a.start);
+
+    for (const edit of edits) {
+      source = source.slice(0, edit.start) + edit.text + source.slice(edit.end);
+    }
+    fs.writeFileSync(file, source);
+    written += edits.length;
+  }
+  pendingSnapshots.clear();
+  return written;
+}
@@ -0,0 +1,291 @@
+/**
+ * Loader of the Jest configuration of the project
+ *
+ * The configuration is read from the file named by JEST_COMPAT_CONFIG, or found in the
+ * working directory like Jest does: a jest.config.* file or the "jest" key of package.json.
+ * Presets are merged in, and so is the project containing the running test file when the
+ * configuration has projects. Paths are resolved from the root directory of the
+ * configuration, and the options the adapter does not support are reported with a warning.
+ */
+import fs from 'node:fs';
+import { createRequire } from 'node:module';
+import path from 'node:path';
+
+// Environment variable naming the configuration file, as node does not accept --config
+export const CONFIG_ENVIRONMENT_VARIABLE = 'JEST_COMPAT_CONFIG';
+
+// Names of the configuration files, in the order Jest looks for them
+const CONFIG_FILES = ['jest.config.js', 'jest.config.ts', 'jest.config.mjs', 'jest.config.cjs', 'jest.config.mts', 'jest.config.cts', 'jest.config.json'];
+
+// Names of the files of presets, at the root of their package or directory
+const PRESET_FILES = ['jest-preset.json', 'jest-preset.js', 'jest-preset.cjs', 'jest-preset.mjs'];
+
+// Options used by the adapter, passed on to its configuration
+const SUPPORTED_OPTIONS = [
+  'automock',
+  'ci',
+  'clearMocks',
+  'fakeTimers',
+  'maxConcurrency',
+  'randomize',
+  'resetMocks',
+  'restoreMocks',
+  'seed',
+  'setupFiles',
+  'setupFilesAfterEnv',
+  'snapshotResolver',
+  'snapshotSerializers',
+  'testTimeout'
+] as const;
+
+// Options describing the configuration itself, handled by the loader
+const STRUCTURAL_OPTIONS = ['$schema', 'displayName', 'preset', 'projects', 'rootDir', 'testEnvironment'];
+
+// Options holding paths, resolved from the root directory
+const PATH_OPTIONS = new Set(['setupFiles', 'setupFilesAfterEnv', 'snapshotResolver', 'snapshotSerializers']);
+
+// Options concatenated with the ones of the preset instead of replacing them, like in Jest
+const PRESET_CONCATENATED_OPTIONS = ['setupFiles', 'setupFilesAfterEnv'];
+
+// Options of fakeTimers the adapter does not support
+const UNSUPPORTED_FAKE_TIMERS_OPTIONS = ['legacyFakeTimers'];
+
+type SupportedOption = typeof SUPPORTED_OPTIONS[number];
+
+/**
+ * Jest configuration found for the project, with the options of the adapter
+ */
+export interface JestConfig {
+  // Path of the configuration file, package.json for the "jest" key
+  configPath: string;
+  // Options supported by the adapter, not yet validated
+  options: Partial<Record<SupportedOption, unknown>>;
+  // Names of the options found that the adapter does not support
+  unsupportedOptions: string[];
+}
+
+/**
+ * Finds the configuration file of a directory
+ * @param directory Directory to look into
+ * @returns Path of the configuration file, undefined when there is none
+ */
+function findConfigFile(directory: string): string | undefined {
+  const found = CONFIG_FILES.map(name => path.join(directory, name)).filter(file => fs.existsSync(file));
+  const packageJson = path.join(directory, 'package.json');
+  if (fs.existsSync(packageJson) && readJson(packageJson).jest !== undefined) {
+    found.push(packageJson);
+  }
+  if (found.length > 1) {
+    throw new Error(
+      `Multiple Jest configurations found in ${directory}: ${found.map(file => path.basename(file)).join(', ')}. ` +
+      `Keep only one of them, or name the one to use with ${CONFIG_ENVIRONMENT_VARIABLE}.`
+    );
+  }
+  return found[0];
+}
+
+/**
+ * Reads a JSON file
+ * @param file Path of the file
+ * @returns Parsed content
+ */
+function readJson(file: string): any {
+  return JSON.parse(fs.readFileSync(file, 'utf8'));
+}
+
+/**
+ * Reads a configuration file, or a preset
+ * @param file Path of the file
+ * @returns Configuration object
+ */
+function readConfigFile(file: string): Record<string, any> {
+  if (path.basename(file) === 'package.json') {
+    return readJson(file).jest;
+  }
+  if (file.endsWith('.json')) {
+    return readJson(file);
+  }
+
+  let exported: any;
+  try {
+    // Loaded synchronously, ES modules and TypeScript through the require() support of node
+    exported = createRequire(file)(file);
+  } catch (error: any) {
+    throw new Error(`Cannot load the Jest configuration ${file}: ${error?.message ?? error}`);
+  }
+  const isModule = exported?.__esModule || exported?.[Symbol.toStringTag] === 'Module';
+  const config = isModule && exported.default !== undefined ? exported.default : exported;
+  const resolved = typeof config === 'function' ? config() : config;
+  if (typeof resolved?.then === 'function') {
+    throw new Error(`Cannot load the Jest configuration ${file}: configurations resolved asynchronously are not supported`);
+  }
+  if (typeof resolved !== 'object' || resolved === null) {
+    throw new Error(`Invalid Jest configuration ${file}: expected an object, received ${JSON.stringify(resolved)}`);
+  }
+  return resolved;
+}
+
+/**
+ * Finds the file of a preset
+ * @param preset Preset name, a package or a path relative to the root directory
+ * @param rootDir Root directory of the configuration using the preset
+ * @returns Path of the preset file
+ */
+function findPresetFile(preset: string, rootDir: string): string {
+  const require = createRequire(path.join(rootDir, 'index.js'));
+  for (const name of PRESET_FILES) {
+    try {
+      return require.resolve(`${preset.replace(/\/$/, '')}/${name}`);
+    } catch {
+      // Try the next file name
+    }
+  }
+  throw new Error(`Preset ${preset} not found relative to ${rootDir}`);
+}
+
+/**
+ * Merges the preset of a configuration into it
+ * @param config Configuration with a preset
+ * @param rootDir Root directory of the configuration
+ * @returns Configuration merged with its preset
+ */
+function mergePreset(config: Record<string, any>, rootDir: string): Record<string, any> {
+  if (typeof config.preset !== 'string') {
+    return config;
+  }
+  const { preset, ...options } = config;
+  const presetConfig = readConfigFile(findPresetFile(preset, rootDir));
+  const merged: Record<string, any> = { ...presetConfig, ...options };
+  for (const name of PRESET_CONCATENATED_OPTIONS) {
+    if (Array.isArray(presetConfig[name]) && Array.isArray(options[name])) {
+      merged[name] = [...presetConfig[name], ...options[name]];
+    }
+  }
+  return merged;
+}
+
+/**
+ * Resolves a path option from the root directory, leaving package names as they are
+ * @param value Path, possibly starting with <rootDir>
+ * @param rootDir Root directory of the configuration
+ * @returns Absolute path, or the package name
+ */
+function resolvePath(value: unknown, rootDir: string): unknown {
+  if (typeof value !== 'string') {
+    return value;
+  }
+  const replaced = value.replace(/^<rootDir>/, rootDir);
+  return replaced.startsWith('.') ? path.resolve(rootDir, replaced) : replaced;
+}
+
+/**
+ * Resolves the root directory of a configuration
+ * @param config Configuration
+ * @param baseDir Directory the root directory is relative to
+ * @returns Absolute root directory
+ */
+function resolveRootDir(config: Record<string, any>, baseDir: string): string {
+  return typeof config.rootDir === 'string' ? path.resolve(baseDir, config.rootDir) : baseDir;
+}
+
+/**
+ * Loads the configuration of a project
+ * @param project Project, a directory with its own configuration or a configuration object
+ * @param rootDir Root directory of the configuration listing the project
+ * @returns Root directory and configuration of the project
+ */
+function loadProject(project: unknown, rootDir: string): { rootDir: string; config: Record<string, any> } | undefined {
+  if (typeof project === 'string') {
+    const projectDir = path.resolve(rootDir, project.replace(/^<rootDir>/, rootDir));
+    const configFile = fs.statSync(projectDir, { throwIfNoEntry: false })?.isDirectory() ? findConfigFile(projectDir) : projectDir;
+    const config = configFile ? readConfigFile(configFile) : {};
+    const projectRootDir = resolveRootDir(config, configFile ? path.dirname(configFile) : projectDir);
+    return { rootDir: projectRootDir, config: mergePreset(config, projectRootDir) };
+  }
+  if (typeof project === 'object' && project !== null) {
+    const config = project as Record<string, any>;
+    const projectRootDir = resolveRootDir(config, rootDir);
+    return { rootDir: projectRootDir, config: mergePreset(config, projectRootDir) };
+  }
+  return undefined;
+}
+
+/**
+ * Finds the project containing a test file, the one with the deepest root directory
+ * @param projects Projects of the configuration
+ * @param rootDir Root directory of the configuration
+ * @param testFile Path of the running test file
+ * @returns Root directory and configuration of the project, undefined when none contains the file
+ */
+function findProject(projects: unknown[], rootDir: string, testFile: string | undefined) {
+  if (!testFile) {
+    return undefined;
+  }
+  const testPath = path.resolve(testFile);
+  return projects
+    .map(project => loadProject(project, rootDir))
+    .filter(project => project && (testPath + path.sep).startsWith(project.rootDir + path.sep))
+    .sort((a, b) => b!.rootDir.length - a!.rootDir.length)[0];
+}
+
+/**
+ * Extracts the options of the adapter from a configuration
+ * @param config Configuration, merged with its preset and project
+ * @param rootDir Root directory the paths are resolved from
+ * @returns Supported options and the names of the unsupported ones
+ */
+function extractOptions(config: Record<string, any>, rootDir: string) {
+  const options: Partial<Record<SupportedOption, unknown>> = {};
+  const unsupportedOptions: string[] = [];
+
+  for (const [name, value] of Object.entries(config)) {
+    if ((SUPPORTED_OPTIONS as readonly string[]).includes(name)) {
+      options[name as SupportedOption] = !PATH_OPTIONS.has(name) ? value
+        : Array.isArray(value) ? value.map(item => resolvePath(item, rootDir)) : resolvePath(value, rootDir);
+    } else if (!STRUCTURAL_OPTIONS.includes(name)) {
+      unsupportedOptions.push(name);
+    }
+  }
+
+  // Tests run in node, whatever the test environment
+  if (config.testEnvironment !== undefined && config.testEnvironment !== 'node') {
+    unsupportedOptions.push('testEnvironment');
+  }
+  if (typeof options.fakeTimers === 'object' && options.fakeTimers !== null) {
+    const fakeTimers: Record<string, unknown> = { ...options.fakeTimers };
+    for (const name of UNSUPPORTED_FAKE_TIMERS_OPTIONS.filter(name => name in fakeTimers)) {
+      unsupportedOptions.push(`fakeTimers.${name}`);
+      delete fakeTimers[name];
+    }
+    options.fakeTimers = fakeTimers;
+  }
+  return { options, unsupportedOptions };
+}
+
+/**
+ * Loads the Jest configuration of the project
+ * @param cwd Directory to look for the configuration in
+ * @param testFile Path of the running test file, selecting its project
+ * @returns Configuration found, undefined when there is none
+ */
+export function loadJestConfig(cwd: string = process.cwd(), testFile: string | undefined = process.argv[1]): JestConfig | undefined {
+  const configuredPath = process.env[CONFIG_ENVIRONMENT_VARIABLE];
+  const configPath = configuredPath ? path.resolve(cwd, configuredPath) : findConfigFile(cwd);
+  if (!configPath) {
+    return undefined;
+  }
+
+  const config = readConfigFile(configPath);
+  const rootDir = resolveRootDir(config, path.dirname(configPath));
+  let merged = mergePreset(config, rootDir);
+  let projectRootDir = rootDir;
+
+  if (Array.isArray(merged.projects)) {
+    const { projects, ...globalConfig } = merged;
+    const project = findProject(projects, rootDir, testFile);
+    merged = project ? { ...globalConfig, ...project.config } : globalConfig;
+    projectRootDir = project?.rootDir ?? rootDir;
+  }
+
+  return { configPath, ...extractOptions(merged, projectRootDir) };
+}
@@ -0,0 +1,73 @@
+/**
+ * Manual mocks, written by the user in __mocks__ directories
+ *
+ * Resolved by Jest's rules: a user module is mocked by the file with the same name in a
+ * __mocks__ directory next to it, while node_modules packages and built-in modules are
+ * mocked by a file named after the module in the __mocks__ directory of the project root.
+ * Like in Jest, manual mocks of packages apply without calling jest.mock(), while the ones
+ * of user and built-in modules apply when the module is mocked.
+ */
+import fs from 'node:fs';
+import path from 'node:path';
+
+// Name of the directories holding manual mocks
+const MOCKS_DIRECTORY = '__mocks__';
+
+// Extensions of the manual mocks of packages, Jest's default moduleFileExtensions
+const MODULE_FILE_EXTENSIONS = ['.js', '.mjs', '.cjs', '.jsx', '.ts', '.tsx', '.json', '.node'];
+
+/**
+ * Checks if a path exists and is a file
+ * @param file Path to check
+ * @returns True for existing files
+ */
+function isFile(file: string): boolean {
+  return fs.statSync(file, { throwIfNoEntry: false })?.isFile() ?? false;
+}
+
+/**
+ * Checks if a resolved module is a package installed in node_modules
+ * @param resolved Absolute path of the module, or the specifier of a built-in module
+ * @returns True for modules in node_modules
+ */
+export function isNodeModulesPackage(resolved: string): boolean {
+  return path.isAbsolute(resolved) && resolved.split(path.sep).includes('node_modules');
+}
+
+/**
+ * Checks if a file is a manual mock
+ * @param file Absolute path of the file
+ * @returns True for files in a __mocks__ directory
+ */
+export function isManualMock(file: string): boolean {
+  return file.split(path.sep).includes(MOCKS_DIRECTORY);
+}
+
+/**
+ * Finds the manual mock of a package or built-in module in the __mocks__ directory of the
+ * project root, which is the working directory
+ * @param moduleName Name of the module, with its subpath for files of packages
+ * @returns Path of the manual mock, undefined when there is none
+ */
+function findRootManualMock(moduleName: string): string | undefined {
+  const mockBase = path.join(process.cwd(), MOCKS_DIRECTORY, moduleName.replace(/^node:/, ''));
+  return ['', ...MODULE_FILE_EXTENSIONS].map(extension => mockBase + extension).find(isFile);
+}
+
+/**
+ * Finds the manual mock of a module
+ * @param moduleName Module specifier, as given to jest.mock()
+ * @param resolved Absolute path of the module, or the specifier of a built-in module
+ * @returns Path of the manual mock, undefined when there is none
+ */
+export function findManualMock(moduleName: string, resolved: string): string | undefined {
+  if (path.isAbsolute(resolved) && !isNodeModulesPackage(resolved)) {
+    const mockFile = path.join(path.dirname(resolved), MOCKS_DIRECTORY, path.basename(resolved));
+    return isFile(mockFile) ? mockFile : undefined;
+  }
+  // Packages are only mocked from the root when imported by name
+  if (moduleName.startsWith('.') || path.isAbsolute(moduleName)) {
+    return undefined;
+  }
+  return findRootManualMock(moduleName);
+}
@@ -4,7 +4,9 @@
  * This module provides a unified approach to creating and managing mock functions,
  * spies, and related functionality to reduce duplication and improve maintainability.
  */
-import { fn, spyOn } from 'jest-mock';
+import { fn, mocked, replaceProperty, spyOn } from 'jest-mock';
+import { loadActualModule, loadModuleMock } from './moduleMocking.js';
+import { getCallerFile, resolveModuleURL } from './moduleResolution.js';
 import { mockRegistry, moduleRegistry } from './registry.js';
 
 /**
@@ -25,12 +27,20 @@ export function createMockFunction(implementation?: (...args: any[]) => any): an
  * @returns Spy function
  */
 export function createSpyFunction(object: any, methodName: any, accessType?: any): any {
-  const original = accessType ? 
-    Object.getOwnPropertyDescriptor(object, methodName) : 
-    object[methodName];
-  
   const spyInstance = spyOn(object, methodName, accessType);
-  return mockRegistry.registerSpy(spyInstance, object, methodName, original, accessType);
+  return mockRegistry.registerSpy(spyInstance);
+}
+
+/**
+ * Replaces the value of an object's property and registers it for restoration
+ * @param object Object holding the property
+ * @param propertyKey Name of the property to replace
+ * @param value Value to replace the property with
+ * @returns Replaced property, with replaceValue and restore methods
+ */
+export function createReplacedProperty(object: any, propertyKey: any, value: any): any {
+  const replaced = replaceProperty(object, propertyKey, value);
+  return mockRegistry.registerReplacedProperty(replaced);
 }
 
 /**
@@ -64,33 +74,31 @@ export function isMockFunction(fn: any): boolean {
 }
 
 /**
- * Require the actual module
- * @param moduleName Module name to require
+ * Require the actual module, synchronously also for ES modules where require(esm) is supported
+ * @param moduleName Module name to require, relative to the calling file
  * @returns Actual module
  */
 export function requireActual(moduleName: string): any {
-  try {
-    return require(moduleName);
-  } catch (e) {
-    // For ESM modules
-    return import(moduleName);
-  }
+  return loadActualModule(moduleName, getCallerFile());
 }
 
 /**
  * Require a mocked module
- * @param moduleName Module name to require
+ * @param moduleName Module name to require, relative to the calling file
  * @returns Mocked module
  */
 export function requireMock(moduleName: string): any {
-  const cachedModule = moduleRegistry.getCachedModule(moduleName);
+  const fromFile = getCallerFile();
+  const moduleURL = moduleRegistry.getVirtualModuleURL(moduleName) ?? resolveModuleURL(moduleName, fromFile);
+  const cachedModule = moduleRegistry.getCachedModule(moduleURL);
   if (cachedModule) {
     return cachedModule;
   }
   
-  // In a real implementation, this would return a mocked version
-  // For now, just return the actual module
-  return requireActual(moduleName);
+  // Like in Jest, the manual mock of the module or its automatic mock
+  const moduleMock = loadModuleMock(moduleName, fromFile);
+  moduleRegistry.cacheModule(moduleURL, moduleMock);
+  return moduleMock;
 }
 
 /**
@@ -101,6 +109,9 @@ export function createMockFunctions() {
   return {
     fn: createMockFunction,
     spyOn: createSpyFunction,
+    // Only changes the type of its argument, to access it as a mock in TypeScript
+    mocked,
+    replaceProperty: createReplacedProperty,
     clearAllMocks,
     resetAllMocks,
     restoreAllMocks,
@@ -0,0 +1,169 @@
+/**
+ * Module hooks replacing the modules imported by the test code with their mocks
+ *
+ * Modules mocked with jest.mock() are replaced by node's mock.module(). These hooks, run
+ * synchronously in the thread of the tests, replace the modules Jest mocks without an
+ * explicit jest.mock(): packages with a manual mock in the root __mocks__ directory, and
+ * user modules when automock is enabled. They also give the ES modules imported after
+ * jest.resetModules() or in jest.isolateModules() the URLs of their registry, and hoist
+ * the module mocks of the test code above its imports, so that the mocks are in place
+ * when the imported modules load.
+ */
+import fs from 'node:fs';
+import module from 'node:module';
+import path from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { isAutomockEnabled, loadAutomockModule, toAutomockURL } from './automock.js';
+import { isUserCode } from './callSite.js';
+import { getHoistedPart, hoistModuleMocks } from './hoisting.js';
+import { findManualMock, isManualMock, isNodeModulesPackage } from './manualMocks.js';
+import { toModuleRegistryURL } from './moduleIsolation.js';
+import { configRegistry, moduleRegistry } from './registry.js';
+
+// Features used without the module hooks they rely on, each one being warned about once
+const warnedFeatures = new Set<string>();
+
+/**
+ * Checks if the module hooks can be registered, module.registerHooks() being available
+ * from Node.js 22.15 and 23.5
+ * @returns True when the module hooks are in place
+ */
+export function hasModuleHooks(): boolean {
+  return typeof module.registerHooks === 'function';
+}
+
+/**
+ * Warns once that a feature relying on the module hooks is limited without them
+ * @param feature Feature in use, like "jest.enableAutomock()"
+ * @param limitation What the feature does without the module hooks
+ */
+export function warnWithoutModuleHooks(feature: string, limitation: string) {
+  if (hasModuleHooks() || warnedFeatures.has(feature)) {
+    return;
+  }
+  warnedFeatures.add(feature);
+  console.warn(
+    `Warning: ${feature} is only partially supported in @simonegianni/node-test-jest-compat on Node.js ` +
+    `${process.versions.node}, which lacks module.registerHooks() (Node.js 22.15 and later): ${limitation}.`
+  );
+}
+
+/**
+ * Finds the mock replacing a resolved module
+ * @param specifier Module specifier, as imported
+ * @param url URL of the resolved module
+ * @param parentURL URL of the module importing it
+ * @param required Whether the module is loaded with require()
+ * @returns URL of the mock, undefined to load the actual module
+ */
+function resolveMock(specifier: string, url: string, parentURL: string | undefined, required: boolean): string | undefined {
+  if (!parentURL?.startsWith('file:') || !url.startsWith('file:')) {
+    return undefined;
+  }
+  if (moduleRegistry.isLoadingActualModule() || moduleRegistry.hasMockedModule(url) || moduleRegistry.isUnmockedModule(url)) {
+    return undefined;
+  }
+  // Only the test code gets mocks, and manual mocks get the actual modules they mock
+  const parentFile = fileURLToPath(parentURL);
+  if (!isUserCode(parentFile) || isManualMock(parentFile)) {
+    return undefined;
+  }
+
+  const file = fileURLToPath(url);
+  if (isNodeModulesPackage(file)) {
+    const manualMock = findManualMock(specifier, file);
+    return manualMock && pathToFileURL(manualMock).href;
+  }
+  if (isAutomockEnabled() && isUserCode(file) && !isManualMock(file)) {
+    const manualMock = findManualMock(specifier, file);
+    return manualMock ? pathToFileURL(manualMock).href : toAutomockURL(url, required);
+  }
+  return undefined;
+}
+
+/**
+ * Loads a module through the next hooks
+ * @param url URL of the module
+ * @param context Context of the load hook
+ * @param nextLoad Next load hook
+ * @returns Format and source of the module
+ */
+function loadNext(url: string, context: module.LoadHookContext, nextLoad: (url: string, context?: module.LoadHookContext) => any): module.LoadFnOutput {
+  try {
+    return nextLoad(url, context);
+  } catch (error: any) {
+    // With asynchronous hooks registered, like the ones of mock.module(), the default load
+    // of CommonJS modules required by imported CommonJS modules gives no source, which the
+    // validation of synchronous hooks rejects: read the source directly
+    if (error?.code === 'ERR_INVALID_RETURN_PROPERTY_VALUE' && context.format === 'commonjs' && url.startsWith('file:')) {
+      return { format: 'commonjs', source: fs.readFileSync(fileURLToPath(url)) };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Hoists the module mocks of a loaded user module
+ * @param url URL of the module
+ * @param loaded Format and source of the module
+ * @returns Loaded module, with the rewritten source when mocks were hoisted
+ */
+function hoistLoadedModuleMocks(url: string, loaded: module.LoadFnOutput): module.LoadFnOutput {
+  const isJavaScript = loaded.format === 'module' || loaded.format === 'commonjs';
+  if (!url.startsWith('file:') || !isJavaScript || loaded.source == null) {
+    return loaded;
+  }
+  const file = fileURLToPath(url);
+  if (!isUserCode(file)) {
+    return loaded;
+  }
+  const source = typeof loaded.source === 'string' ? loaded.source : Buffer.from(loaded.source as Uint8Array).toString('utf8');
+  const hoisted = hoistModuleMocks(source, url, loaded.format === 'module');
+  return hoisted === undefined ? loaded : { ...loaded, source: hoisted };
+}
+
+/**
+ * Initializes the module hooks, on Node versions supporting synchronous module hooks
+ */
+export function initializeModuleHooks() {
+  if (!hasModuleHooks()) {
+    if (configRegistry.getConfig().automock) {
+      warnWithoutModuleHooks('automock', 'only the modules mocked with jest.mock() are replaced by their automatic mock');
+    }
+    if (fs.existsSync(path.join(process.cwd(), '__mocks__'))) {
+      warnWithoutModuleHooks('The root __mocks__ directory', 'its manual mocks only apply to the modules mocked with jest.mock()');
+    }
+    return;
+  }
+
+  module.registerHooks({
+    resolve(specifier, context, nextResolve) {
+      // Virtual modules do not exist, they resolve to the URL they are mocked with
+      const virtualURL = moduleRegistry.getVirtualModuleURL(specifier);
+      if (virtualURL) {
+        return nextResolve(virtualURL, context);
+      }
+      // Synchronous hooks get synchronous results from the next hooks
+      const resolved = nextResolve(specifier, context) as module.ResolveFnOutput;
+      // The parts of a module whose module mocks are hoisted are the module itself
+      if (getHoistedPart(resolved.url)) {
+        return resolved;
+      }
+      // Conditions are an array for import and a set for require()
+      const required = Array.from(context.conditions ?? []).includes('require');
+      const mockURL = resolveMock(specifier, resolved.url, context.parentURL, required);
+      if (mockURL) {
+        return { url: mockURL, shortCircuit: true };
+      }
+      const registryURL = toModuleRegistryURL(resolved.url, context.parentURL, required);
+      return registryURL ? { ...resolved, url: registryURL } : resolved;
+    },
+    load(url, context, nextLoad) {
+      const automockModule = loadAutomockModule(url);
+      if (automockModule) {
+        return { ...automockModule, shortCircuit: true };
+      }
+      return hoistLoadedModuleMocks(url, loadNext(url, context, nextLoad));
+    }
+  });
+}
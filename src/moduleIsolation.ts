@@ -0,0 +1,143 @@
+/**
+ * Module registries of the test code, reset by jest.resetModules() and isolated by
+ * jest.isolateModules()
+ *
+ * CommonJS modules are registered in require.cache, which is emptied on reset, and emptied
+ * then restored around isolated callbacks. ES modules cannot be removed from the registry
+ * of node, so the module hooks import them with a query making their URLs unique to the
+ * generation of the registry, or to the isolated registry. Mocked modules keep their URLs,
+ * so that their mocks still apply.
+ */
+import module from 'node:module';
+import { fileURLToPath } from 'node:url';
+import { isAdapterCode, isUserCode } from './callSite.js';
+import { moduleRegistry, testContextRegistry } from './registry.js';
+
+// Query parameters giving the URLs of ES modules the generation of their registry, and
+// the id of their isolated registry
+const MODULE_GENERATION_PARAM = 'jest-generation';
+const ISOLATED_MODULES_PARAM = 'jest-isolated';
+
+// Cache of the CommonJS modules, the require.cache of every module
+const requireCache: Record<string, unknown> = (module as any)._cache;
+
+/**
+ * Empties the CommonJS module cache, keeping the modules of the adapter
+ */
+function clearRequireCache() {
+  for (const file of Object.keys(requireCache)) {
+    if (!isAdapterCode(file)) {
+      delete requireCache[file];
+    }
+  }
+}
+
+/**
+ * Saves then empties the CommonJS module cache, keeping the modules of the adapter
+ * @returns Entries of the cache before it was emptied
+ */
+function sandboxRequireCache(): Record<string, unknown> {
+  const saved = { ...requireCache };
+  clearRequireCache();
+  return saved;
+}
+
+/**
+ * Restores the CommonJS module cache, discarding the modules loaded since it was sandboxed
+ * @param saved Entries of the cache before it was sandboxed
+ */
+function restoreRequireCache(saved: Record<string, unknown>) {
+  for (const file of Object.keys(requireCache)) {
+    delete requireCache[file];
+  }
+  Object.assign(requireCache, saved);
+}
+
+/**
+ * Checks if a URL belongs to a module of a reset or isolated registry
+ * @param url URL of the module
+ * @returns True for URLs with the query of a registry
+ */
+function isRegistryModuleURL(url: string): boolean {
+  const { searchParams } = new URL(url);
+  return searchParams.has(MODULE_GENERATION_PARAM) || searchParams.has(ISOLATED_MODULES_PARAM);
+}
+
+/**
+ * Gives the URL of an imported module in the current module registry
+ * @param url URL of the resolved module
+ * @param parentURL URL of the module importing it
+ * @param required Whether the module is loaded with require(), registered in require.cache
+ * @returns URL unique to the current registry, undefined to keep the URL
+ */
+export function toModuleRegistryURL(url: string, parentURL: string | undefined, required: boolean): string | undefined {
+  const moduleGeneration = moduleRegistry.getModuleGeneration();
+  const isolatedModulesId = moduleRegistry.getIsolatedModulesId();
+  if (moduleGeneration === 0 && isolatedModulesId === undefined) {
+    return undefined;
+  }
+  if (required || !url.startsWith('file:') || !parentURL?.startsWith('file:')) {
+    return undefined;
+  }
+  // Mocked modules are resolved with the query of mock.module(), their mocks must stay in place
+  const registryURL = new URL(url);
+  const moduleURL = registryURL.href.slice(0, registryURL.href.length - registryURL.search.length);
+  if (moduleRegistry.hasMockedModule(moduleURL) || isAdapterCode(fileURLToPath(url))) {
+    return undefined;
+  }
+  // Modules are reloaded when imported by the test code or by other reloaded modules
+  if (!isUserCode(fileURLToPath(parentURL)) && !isRegistryModuleURL(parentURL)) {
+    return undefined;
+  }
+  if (moduleGeneration > 0) {
+    registryURL.searchParams.set(MODULE_GENERATION_PARAM, String(moduleGeneration));
+  }
+  if (isolatedModulesId !== undefined) {
+    registryURL.searchParams.set(ISOLATED_MODULES_PARAM, String(isolatedModulesId));
+  }
+  return registryURL.href;
+}
+
+/**
+ * Resets the module registry, like jest.resetModules()
+ */
+export function resetModules() {
+  moduleRegistry.resetAllModules();
+  clearRequireCache();
+}
+
+/**
+ * Runs a function with an isolated module registry, like jest.isolateModules()
+ * @param fn Function loading the modules
+ */
+export function isolateModules(fn: () => void) {
+  moduleRegistry.startIsolatedModules();
+  const saved = sandboxRequireCache();
+  try {
+    fn();
+  } finally {
+    restoreRequireCache(saved);
+    moduleRegistry.endIsolatedModules();
+  }
+}
+
+/**
+ * Runs an async function with an isolated module registry, like jest.isolateModulesAsync()
+ *
+ * The isolated registry applies to the whole process while the function runs, so it is
+ * refused in tests running concurrently with others, which would load their modules in it.
+ * @param fn Async function loading the modules
+ */
+export async function isolateModulesAsync(fn: () => Promise<void>) {
+  if (testContextRegistry.getCurrentTestState()?.concurrent) {
+    throw new Error('isolateModulesAsync cannot be used in concurrent tests, as the module registry is shared by the tests running at the same time.');
+  }
+  moduleRegistry.startIsolatedModules();
+  const saved = sandboxRequireCache();
+  try {
+    await fn();
+  } finally {
+    restoreRequireCache(saved);
+    moduleRegistry.endIsolatedModules();
+  }
+}
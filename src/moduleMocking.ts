@@ -1,33 +1,95 @@
 // Implementation of Jest's module mocking functionality using Node.js test runner's mock.module()
 import { test } from 'node:test';
+import { pathToFileURL } from 'node:url';
+import { generateAutomock, toMockModuleOptions } from './automock.js';
+import { findManualMock } from './manualMocks.js';
+import { warnWithoutModuleHooks } from './moduleHooks.js';
+import { resetModules } from './moduleIsolation.js';
+import { getCallerFile, isESModule, requireModule, resolveModule, resolveModuleURL } from './moduleResolution.js';
 import { moduleRegistry } from './registry.js';
 
+// Loads the manual mock of a module if there is one, or generates its automatic mock
+export function loadModuleMock(moduleName: string, fromFile: string) {
+  const manualMock = findManualMock(moduleName, resolveModule(moduleName, fromFile));
+  if (manualMock) {
+    return requireModule(manualMock, fromFile);
+  }
+  const actual = requireModule(moduleName, fromFile);
+  const automock = generateAutomock(actual);
+  // Keep the ES module shape of the actual module, as the automatic mock is a plain object
+  return isESModule(actual) && automock ? Object.defineProperty(automock, '__esModule', { value: true }) : automock;
+}
+
+// Loads the actual module, even when it is mocked, like jest.requireActual()
+export function loadActualModule(moduleName: string, fromFile: string) {
+  const moduleURL = resolveModuleURL(moduleName, fromFile);
+  const cachedModule = moduleRegistry.getActualModule(moduleURL);
+  if (cachedModule) {
+    return cachedModule;
+  }
+
+  const mockContext = moduleRegistry.getMockedModule(moduleURL);
+  const load = () => moduleRegistry.withActualModules(() => requireModule(moduleName, fromFile));
+  if (!mockContext) {
+    return load();
+  }
+
+  // mock.module() applies to require() too, so the mock is lifted while the actual module loads
+  mockContext.restore();
+  try {
+    const actualModule = load();
+    moduleRegistry.cacheActualModule(moduleURL, actualModule);
+    return actualModule;
+  } finally {
+    const moduleExports = moduleRegistry.getCachedModule(moduleURL);
+    const restoredContext = test.mock.module(moduleURL, toMockModuleOptions(moduleExports, isESModule(moduleExports)));
+    moduleRegistry.registerMockedModule(moduleURL, restoredContext);
+  }
+}
+
+// Loads the mock of a virtual module, which does not exist: its manual mock in the root
+// __mocks__ directory, or an empty module
+function loadVirtualModuleMock(moduleName: string) {
+  const manualMock = findManualMock(moduleName, moduleName);
+  return manualMock ? requireModule(manualMock) : {};
+}
+
+// URL standing for a virtual module, as mock.module() only mocks modules it can resolve:
+// the file mocking it, with a query naming the module
+function toVirtualModuleURL(moduleName: string, fromFile: string) {
+  return `${pathToFileURL(fromFile).href}?virtual=${encodeURIComponent(moduleName)}`;
+}
+
 // Implementation of jest.mock() using Node.js test runner's mock.module()
 function mockModule(moduleName: string, factory?: () => any, options?: { virtual?: boolean }) {
+  warnWithoutModuleHooks('jest.mock()', 'calls are not hoisted above the static imports, so only the modules imported afterwards are mocked');
+  // Resolve the module relative to the test file, as mock.module() resolves it relative to the adapter
+  const fromFile = getCallerFile();
+  let moduleURL = resolveModuleURL(moduleName, fromFile);
+  // Virtual modules do not resolve, the module hooks resolve their imports to the URL mocking them
+  if (options?.virtual && moduleURL === moduleName) {
+    warnWithoutModuleHooks('jest.mock() of virtual modules', 'virtual modules cannot be imported');
+    moduleURL = moduleRegistry.getVirtualModuleURL(moduleName) ?? toVirtualModuleURL(moduleName, fromFile);
+    moduleRegistry.registerVirtualModule(moduleName, moduleURL);
+  }
+
   // Check if the module is already mocked
-  if (moduleRegistry.hasMockedModule(moduleName)) {
+  if (moduleRegistry.hasMockedModule(moduleURL)) {
     return;
   }
 
-  let moduleExports: any;
-
-  // If a factory function is provided, use it to create the mock
-  if (factory) {
-    moduleExports = factory();
-  } else {
-    // Default mock implementation
-    moduleExports = {};
-  }
+  // If a factory function is provided, use it to create the mock, otherwise use the
+  // manual mock in __mocks__ or generate an automatic mock from the actual exports,
+  // virtual modules having no actual exports
+  const moduleExports = factory ? factory() : options?.virtual ? loadVirtualModuleMock(moduleName) : loadModuleMock(moduleName, fromFile);
 
   try {
     // Use test.mock.module directly for better compatibility
-    const mockContext = test.mock.module(moduleName, {
-      defaultExport: moduleExports.__esModule ? moduleExports.default : moduleExports,
-      namedExports: moduleExports.__esModule ? moduleExports : moduleExports,
-    });
+    const mockContext = test.mock.module(moduleURL, toMockModuleOptions(moduleExports, isESModule(moduleExports)));
 
-    // Store the mock context for later use
-    moduleRegistry.registerMockedModule(moduleName, mockContext);
+    // Store the mock context for later use, and the mock for jest.requireMock()
+    moduleRegistry.registerMockedModule(moduleURL, mockContext);
+    moduleRegistry.cacheModule(moduleURL, moduleExports);
 
     return mockContext;
   } catch (error) {
@@ -38,12 +100,12 @@ function mockModule(moduleName: string, factory?: () => any, options?: { virtual
 
 // Implementation of jest.unmock()
 function unmockModule(moduleName: string) {
-  moduleRegistry.unmockModule(moduleName);
+  moduleRegistry.unmockModule(resolveModuleURL(moduleName, getCallerFile()));
 }
 
 // Implementation of jest.resetModules()
 function resetAllModules() {
-  moduleRegistry.resetAllModules();
+  resetModules();
 }
 
 // Export the module mocking functionality
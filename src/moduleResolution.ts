@@ -0,0 +1,76 @@
+/**
+ * Resolution and loading of modules from the test code
+ *
+ * Like in Jest, specifiers given to jest.mock, jest.createMockFromModule and the like
+ * are relative to the file calling them, not to the adapter. Modules are loaded
+ * synchronously with a require function created for that file, which also loads ES
+ * modules on Node versions supporting require(esm).
+ */
+import { createRequire } from 'node:module';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { getCallerLocation } from './callSite.js';
+
+/**
+ * Gets the file calling into the adapter, to resolve specifiers from
+ * @returns Path of the calling file, or a file in the working directory when unknown
+ */
+export function getCallerFile(): string {
+  return getCallerLocation()?.file ?? path.join(process.cwd(), 'index.js');
+}
+
+/**
+ * Resolves a module specifier
+ * @param specifier Module specifier, relative to the calling file
+ * @param fromFile File to resolve the specifier from
+ * @returns Absolute path of the module, or the specifier of a built-in module
+ */
+export function resolveModule(specifier: string, fromFile: string = getCallerFile()): string {
+  return createRequire(fromFile).resolve(specifier);
+}
+
+/**
+ * Converts a resolved module to the URL the ESM loader identifies it with
+ * @param resolved Absolute path of the module, or the specifier of a built-in module
+ * @returns File URL of the module, or the built-in module with the node: scheme
+ */
+export function toModuleURL(resolved: string): string {
+  if (path.isAbsolute(resolved)) {
+    return pathToFileURL(resolved).href;
+  }
+  return resolved.startsWith('node:') ? resolved : `node:${resolved}`;
+}
+
+/**
+ * Resolves a module specifier to the URL mock.module() and the module hooks identify it with
+ * @param specifier Module specifier, relative to the calling file
+ * @param fromFile File to resolve the specifier from
+ * @returns URL of the module, or the specifier itself when it does not resolve, like for
+ * virtual modules and modules only resolving for import
+ */
+export function resolveModuleURL(specifier: string, fromFile: string = getCallerFile()): string {
+  try {
+    return toModuleURL(resolveModule(specifier, fromFile));
+  } catch (error) {
+    return specifier;
+  }
+}
+
+/**
+ * Loads a module synchronously
+ * @param specifier Module specifier, relative to the calling file
+ * @param fromFile File to resolve the specifier from
+ * @returns Exports of the module, its namespace for ES modules
+ */
+export function requireModule(specifier: string, fromFile: string = getCallerFile()): any {
+  return createRequire(fromFile)(specifier);
+}
+
+/**
+ * Checks if loaded exports are the namespace of an ES module, or transpiled from one
+ * @param moduleExports Exports of the module
+ * @returns True for ES modules
+ */
+export function isESModule(moduleExports: any): boolean {
+  return !!moduleExports && (moduleExports.__esModule === true || Object.prototype.toString.call(moduleExports) === '[object Module]');
+}
@@ -3,23 +3,60 @@
  * 
  * This module provides a centralized place to store and manage state that was previously
  * scattered across multiple files as global variables. This includes:
- * - Mock functions and spies
+ * - Mock functions, spies and replaced properties
  * - Module mocks
  * - Current test context
  * - Retry counts
  * - Only mode tracking
+ * - Declarations collected while describe blocks are built
+ * - Adapter configuration
  */
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { AdapterConfig } from './config.js';
 
-// Track all created mocks for reset/restore operations
+// Track all created mocks for reset/restore operations, the ones created while a test runs
+// in the scope of the test, keyed by its node:test context, and only weakly held once it
+// is over so that long files do not keep every mock alive
 const createdMocks = new Set<any>();
-const spiedFunctions = new Map<any, { object: any; methodName: string; original: any; accessType?: string }>();
+const testMocks = new WeakMap<object, Set<any>>();
+const endedTestMocks = new Set<WeakRef<any>>();
+const endedTestMocksFinalizer = new FinalizationRegistry<WeakRef<any>>(ref => endedTestMocks.delete(ref));
+// Restorers of the spies and replaced properties, the ones set while a test runs in the scope
+// of the test until it is over, so that restoring them does not undo those of concurrent tests
+const restorers = new Set<() => void>();
+const testRestorers = new WeakMap<object, Set<() => void>>();
+// Module mockers generating automatic mocks, tracking the mocks they create themselves
+const moduleMockers = new Set<any>();
 
 // Module mocking state
 const mockedModules = new Map<string, any>();
 const moduleCache = new Map<string, any>();
+// Modules excluded from automatic mocking with jest.unmock()
+const unmockedModules = new Set<string>();
+// URLs standing for the virtual modules mocked with jest.mock(), by specifier
+const virtualModules = new Map<string, string>();
+// Actual modules of mocked modules, loaded with jest.requireActual()
+const actualModules = new Map<string, any>();
+// Set while actual modules are loaded, so that the module hooks let them through
+let loadingActualModules = false;
+// Generation of the module registry, incremented by jest.resetModules()
+let moduleGeneration = 0;
+// Id of the isolated module registry of jest.isolateModules(), undefined outside of it
+let isolatedModulesId: number | undefined;
+let isolatedModulesCount = 0;
 
-// Test context state
+// Test context state, concurrent tests each get their own context through async storage
+type TestState = { context: any; currentTestName?: string; testPath?: string; concurrent?: boolean };
 let currentTestContext: any = null;
+const testContextStorage = new AsyncLocalStorage<TestState>();
+// Jest-style full names of the declared tests, indexed by their node:test full name
+const testNames = new Map<string, string>();
+// Jest-style full names of the tests that started running
+const startedTests = new Set<string>();
+// Jest-style full names of the tests, indexed by their node:test context once they started
+const contextTestNames = new WeakMap<object, string>();
+// Files declaring tests, found from the call sites of the declarations
+const testFiles = new Set<string>();
 
 // Test retry state
 let currentRetryCount = 0;
@@ -28,43 +65,123 @@ const describeStack: { name: string; retryCount: number }[] = [];
 // Test filtering state
 let onlyMode = false;
 
+// Declaration state, one frame for each describe block being built
+type Declaration = { hook: boolean; register: () => void };
+const declarationStack: { concurrent: boolean; declarations: Declaration[] }[] = [];
+
+// Configuration state
+const config: AdapterConfig = {
+  maxConcurrency: 5,
+  testTimeout: 5000,
+  snapshotSerializers: [],
+  removeObsoleteSnapshots: false,
+  ci: false,
+  updateSnapshots: false,
+  automock: false,
+  clearMocks: false,
+  resetMocks: false,
+  restoreMocks: false,
+  setupFiles: [],
+  setupFilesAfterEnv: [],
+  fakeTimers: {},
+  randomize: false
+};
+
+// Mocks of the running test, or the ones created outside of tests
+function currentMocks(): Set<any> {
+  const context = testContextStorage.getStore()?.context;
+  return (context && testMocks.get(context)) || createdMocks;
+}
+
+// Restorers of the running test, or the ones of spies set outside of tests and in ended tests
+function currentRestorers(): Set<() => void> {
+  const context = testContextStorage.getStore()?.context;
+  return (context && testRestorers.get(context)) || restorers;
+}
+
+// Mocks reached by clearing and resetting, the ones of the running test and of ended tests included
+function allMocks(): any[] {
+  const mocks = currentMocks();
+  const endedMocks = [...endedTestMocks].map(ref => ref.deref()).filter(mock => mock !== undefined);
+  return mocks === createdMocks ? [...createdMocks, ...endedMocks] : [...createdMocks, ...mocks, ...endedMocks];
+}
+
 // Registry for managing mocks
 export const mockRegistry = {
   // Mock functions
   registerMock: (mock: any) => {
-    createdMocks.add(mock);
+    currentMocks().add(mock);
     return mock;
   },
   
-  registerSpy: (spy: any, object: any, methodName: string, original: any, accessType?: string) => {
-    spiedFunctions.set(spy, { object, methodName, original, accessType });
-    createdMocks.add(spy);
+  registerSpy: (spy: any) => {
+    currentRestorers().add(() => {
+      if (typeof spy.mockRestore === 'function') {
+        spy.mockRestore();
+      }
+    });
+    currentMocks().add(spy);
     return spy;
   },
   
+  registerReplacedProperty: (replaced: any) => {
+    currentRestorers().add(() => replaced.restore());
+    return replaced;
+  },
+  
+  startMockScope: (context: object) => {
+    if (testMocks.has(context)) {
+      return false;
+    }
+    testMocks.set(context, new Set());
+    testRestorers.set(context, new Set());
+    return true;
+  },
+  
+  endMockScope: (context: object) => {
+    const mocks = testMocks.get(context) ?? new Set();
+    testMocks.delete(context);
+    for (const mock of mocks) {
+      const ref = new WeakRef(mock);
+      endedTestMocks.add(ref);
+      endedTestMocksFinalizer.register(mock, ref);
+    }
+    // Spies left in place by the test are restored by the next restoring, like in Jest
+    testRestorers.get(context)?.forEach(restore => restorers.add(restore));
+    testRestorers.delete(context);
+  },
+  
+  registerModuleMocker: (moduleMocker: any) => {
+    moduleMockers.add(moduleMocker);
+    return moduleMocker;
+  },
+  
   clearAllMocks: () => {
-    createdMocks.forEach(mock => {
+    allMocks().forEach(mock => {
       if (typeof mock.mockClear === 'function') {
         mock.mockClear();
       }
     });
+    moduleMockers.forEach(moduleMocker => moduleMocker.clearAllMocks());
   },
   
   resetAllMocks: () => {
-    createdMocks.forEach(mock => {
+    allMocks().forEach(mock => {
       if (typeof mock.mockReset === 'function') {
         mock.mockReset();
       }
     });
+    moduleMockers.forEach(moduleMocker => moduleMocker.resetAllMocks());
   },
   
+  // Restores the spies and replaced properties of the running test, and the ones set outside
+  // of tests or left by ended tests, leaving those of concurrent tests in place
   restoreAllMocks: () => {
-    spiedFunctions.forEach((info, spy) => {
-      if (typeof spy.mockRestore === 'function') {
-        spy.mockRestore();
-      }
-    });
-    spiedFunctions.clear();
+    const current = currentRestorers();
+    const restoring = current === restorers ? [...restorers] : [...restorers, ...current];
+    restorers.clear();
+    current.clear();
+    restoring.forEach(restore => restore());
   },
   
   isMockFunction: (fn: any) => {
@@ -76,6 +193,7 @@ export const mockRegistry = {
 export const moduleRegistry = {
   registerMockedModule: (moduleName: string, mockContext: any) => {
     mockedModules.set(moduleName, mockContext);
+    unmockedModules.delete(moduleName);
     return mockContext;
   },
   
@@ -93,27 +211,34 @@ export const moduleRegistry = {
       mockContext.restore();
       mockedModules.delete(moduleName);
     }
+    unmockedModules.add(moduleName);
+  },
+  
+  isUnmockedModule: (moduleName: string) => {
+    return unmockedModules.has(moduleName);
+  },
+  
+  registerVirtualModule: (specifier: string, moduleURL: string) => {
+    virtualModules.set(specifier, moduleURL);
+  },
+  
+  getVirtualModuleURL: (specifier: string) => {
+    return virtualModules.get(specifier);
   },
   
   resetAllModules: () => {
-    for (const [moduleName, mockContext] of mockedModules.entries()) {
-      mockContext.restore();
-    }
-    mockedModules.clear();
-    moduleCache.clear();
-    
-    // In ESM modules, we can't directly access require.cache
-    // We only clear our internal moduleCache
-    try {
-      // This will work in CommonJS but not in ESM
-      if (typeof require !== 'undefined' && require.cache) {
-        Object.keys(require.cache).forEach(key => {
-          delete require.cache[key];
-        });
+    // Module mocks stay registered, along with the exports they were registered with
+    for (const moduleName of moduleCache.keys()) {
+      if (!mockedModules.has(moduleName)) {
+        moduleCache.delete(moduleName);
       }
-    } catch (e) {
-      // Ignore errors in ESM context
     }
+    actualModules.clear();
+    moduleGeneration++;
+  },
+
+  getModuleGeneration: () => {
+    return moduleGeneration;
   },
   
   cacheModule: (moduleName: string, module: any) => {
@@ -122,6 +247,44 @@ export const moduleRegistry = {
   
   getCachedModule: (moduleName: string) => {
     return moduleCache.get(moduleName);
+  },
+  
+  cacheActualModule: (moduleName: string, module: any) => {
+    actualModules.set(moduleName, module);
+  },
+  
+  getActualModule: (moduleName: string) => {
+    return actualModules.get(moduleName);
+  },
+  
+  withActualModules: <T>(load: () => T): T => {
+    const previous = loadingActualModules;
+    loadingActualModules = true;
+    try {
+      return load();
+    } finally {
+      loadingActualModules = previous;
+    }
+  },
+  
+  isLoadingActualModule: () => {
+    return loadingActualModules;
+  },
+
+  startIsolatedModules: () => {
+    if (isolatedModulesId !== undefined) {
+      throw new Error('isolateModules cannot be nested inside another isolateModules or isolateModulesAsync.');
+    }
+    isolatedModulesId = ++isolatedModulesCount;
+    return isolatedModulesId;
+  },
+
+  endIsolatedModules: () => {
+    isolatedModulesId = undefined;
+  },
+
+  getIsolatedModulesId: () => {
+    return isolatedModulesId;
   }
 };
 
@@ -132,7 +295,58 @@ export const testContextRegistry = {
   },
   
   getCurrentTestContext: () => {
-    return currentTestContext;
+    // Prefer the context of the test running in the current async scope
+    return testContextStorage.getStore()?.context ?? currentTestContext;
+  },
+  
+  getCurrentTestState: (): TestState | undefined => {
+    return testContextStorage.getStore();
+  },
+  
+  runWithTestContext: <T>(state: TestState, fn: () => T): T => {
+    currentTestContext = state.context;
+    if (state.currentTestName) {
+      startedTests.add(state.currentTestName);
+      if (state.context) {
+        contextTestNames.set(state.context, state.currentTestName);
+      }
+    }
+    return testContextStorage.run(state, fn);
+  },
+  
+  registerTestName: (nodeFullName: string, jestFullName: string) => {
+    testNames.set(nodeFullName, jestFullName);
+  },
+  
+  registerTestFile: (testPath: string) => {
+    testFiles.add(testPath);
+  },
+  
+  getTestFiles: (): string[] => {
+    return [...testFiles];
+  },
+  
+  // Jest-style full name of the test of a node:test context, which only has the name of the
+  // test itself before Node.js 20: the name is then the one the test started with, or the
+  // first test not started yet with that name among the ones of the describe block of the hook
+  findTestName: (t: { name: string; fullName?: string }, describePath: string[]) => {
+    if (t.fullName !== undefined) {
+      return testNames.get(t.fullName);
+    }
+    const startedName = contextTestNames.get(t);
+    if (startedName !== undefined) {
+      return startedName;
+    }
+    const prefix = describePath.map(name => `${name} > `).join('');
+    const candidates = [...testNames]
+      .filter(([nodeFullName]) => nodeFullName.startsWith(prefix) && (nodeFullName === prefix + t.name || nodeFullName.endsWith(` > ${t.name}`)))
+      .map(([, jestFullName]) => jestFullName);
+    return candidates.find(name => !startedTests.has(name)) ?? candidates[0];
+  },
+  
+  // Declared tests that did not run, because they were skipped or filtered out
+  getTestsNotStarted: (): string[] => {
+    return [...new Set(testNames.values())].filter(name => !startedTests.has(name));
   }
 };
 
@@ -165,6 +379,10 @@ export const retryRegistry = {
   
   popDescribeBlock: () => {
     describeStack.pop();
+  },
+  
+  getDescribePath: () => {
+    return describeStack.map(block => block.name);
   }
 };
 
@@ -178,3 +396,66 @@ export const filterRegistry = {
     return onlyMode;
   }
 };
+
+// Registry for declarations made while describe blocks are built
+export const declarationRegistry = {
+  // Runs fn collecting its declarations instead of handing them to node:test right away
+  collectDeclarations: (concurrent: boolean, fn: () => void): Declaration[] => {
+    const frame = { concurrent, declarations: [] as Declaration[] };
+    declarationStack.push(frame);
+    try {
+      fn();
+    } finally {
+      declarationStack.pop();
+    }
+    return frame.declarations;
+  },
+  
+  // Collects the declarations made at the top level of a file until the returned function is
+  // called, which ends the collection and returns them
+  collectTopLevelDeclarations: (): (() => Declaration[]) => {
+    const frame = { concurrent: false, declarations: [] as Declaration[] };
+    declarationStack.push(frame);
+    return () => {
+      declarationStack.splice(declarationStack.indexOf(frame), 1);
+      return frame.declarations;
+    };
+  },
+  
+  isCollecting: () => {
+    return declarationStack.length > 0;
+  },
+  
+  declare: (register: () => void) => {
+    // Outside of any describe block, register directly with node:test
+    if (declarationStack.length === 0) {
+      register();
+      return;
+    }
+    declarationStack[declarationStack.length - 1].declarations.push({ hook: false, register });
+  },
+  
+  // Hooks are declared like tests, but keep their place when the tests are randomized
+  declareHook: (register: () => void) => {
+    if (declarationStack.length === 0) {
+      register();
+      return;
+    }
+    declarationStack[declarationStack.length - 1].declarations.push({ hook: true, register });
+  },
+  
+  isConcurrentScope: () => {
+    return declarationStack.some(frame => frame.concurrent);
+  }
+};
+
+// Registry for the adapter configuration
+export const configRegistry = {
+  setConfig: (options: Partial<AdapterConfig>) => {
+    Object.assign(config, options);
+  },
+  
+  getConfig: (): Readonly<AdapterConfig> => {
+    return config;
+  }
+};
@@ -1,14 +1,48 @@
-// Generate a random seed when the module is loaded
+import { configRegistry } from './registry.js';
+
+// Generate a random seed when the module is loaded, used when the seed option is not set
 // This ensures the same seed is used throughout a test run
-const SEED = Math.floor(Math.random() * 1000000);
+const GENERATED_SEED = Math.floor(Math.random() * 1000000);
 
 /**
- * Returns the seed value that was generated when the module was loaded.
+ * Returns the seed value, set with the seed option or generated when the module was loaded.
  * This can be used in pseudorandom number generators or anywhere else
  * where deterministic randomness is needed.
  * 
  * @returns {number} The seed value
  */
 export function getSeed(): number {
-  return SEED;
+  return configRegistry.getConfig().seed ?? GENERATED_SEED;
+}
+
+// State of the pseudorandom number generator, starting from the seed on first use
+let randomState: number | undefined;
+
+/**
+ * Returns the next pseudorandom number from the seed, using mulberry32.
+ * The sequence is the same in every run with the same seed.
+ * 
+ * @returns {number} A number between 0 (inclusive) and 1 (exclusive)
+ */
+function nextRandom(): number {
+  randomState = ((randomState ?? getSeed()) + 0x6d2b79f5) | 0;
+  let t = randomState;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+/**
+ * Returns a copy of the items shuffled from the seed, like Jest's randomize option.
+ * 
+ * @param {T[]} items The items to shuffle
+ * @returns {T[]} The shuffled items
+ */
+export function shuffle<T>(items: readonly T[]): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(nextRandom() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
 }
@@ -1,44 +1,144 @@
-import { test } from 'node:test';
-import path from 'node:path';
 import fs from 'node:fs';
+import path from 'node:path';
 import { expect as expectLib } from 'expect';
-import { testContextRegistry } from './registry.js';
+import { configRegistry, testContextRegistry } from './registry.js';
+import { saveInlineSnapshots } from './inlineSnapshots.js';
+import { addSerializer, stripAddedIndentation } from './snapshotFormat.js';
+import { getSnapshotResolver, SNAPSHOT_EXTENSION } from './snapshotResolver.js';
+import { SnapshotState } from './snapshotState.js';
+import type { SnapshotMatchResult } from './snapshotState.js';
+import { formatSnapshotSummary } from './snapshotSummary.js';
 
-// Track if we've already set up the snapshot path resolver
-let resolverSet = false;
+// Snapshot state of each test file, exposed to matchers through expect.getState()
+const snapshotStates = new Map<string, SnapshotState>();
 
-// Default serializer for snapshots
-const defaultSerializer = (value: any): string => {
-  return JSON.stringify(value, null, 2);
-};
+// Resolve the snapshot file of a test file, with the configured snapshot resolver
+function resolveSnapshotPath(testPath: string) {
+  return getSnapshotResolver().resolveSnapshotPath(testPath, SNAPSHOT_EXTENSION);
+}
 
-// Set up the snapshot path resolver to match Jest's behavior
-function setupSnapshotPathResolver() {
-  if (resolverSet) return;
-  if (!test.snapshot) {
-    return;
+// Resolve the test file of a snapshot file, the reverse of resolveSnapshotPath
+function resolveTestPath(snapshotPath: string) {
+  return getSnapshotResolver().resolveTestPath(snapshotPath, SNAPSHOT_EXTENSION);
+}
+
+// Find the snapshot files whose test file no longer exists, in the directory of a snapshot file.
+// All the test files sharing the directory would find the same ones, so only the test file
+// owning the first snapshot file of the directory reports them
+function findObsoleteSnapshotFiles(snapshotPath: string) {
+  const dir = path.dirname(snapshotPath);
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+  const snapshotFiles = fs.readdirSync(dir)
+    .filter(file => file.endsWith(SNAPSHOT_EXTENSION))
+    .sort()
+    .map(file => path.join(dir, file));
+  const obsoleteFiles = snapshotFiles.filter(file => !fs.existsSync(resolveTestPath(file)));
+  const owner = snapshotFiles.find(file => !obsoleteFiles.includes(file));
+  return owner === snapshotPath ? obsoleteFiles : [];
+}
+
+// Check if snapshots are being updated, with node's --test-update-snapshots or the updateSnapshots option
+function isUpdateMode() {
+  return process.execArgv.includes('--test-update-snapshots') || configRegistry.getConfig().updateSnapshots;
+}
+
+// Get when snapshots are written: all of them when updating, none in CI, otherwise only new ones
+function getUpdateSnapshot() {
+  if (isUpdateMode()) {
+    return 'all';
+  }
+  return configRegistry.getConfig().ci ? 'none' : 'new';
+}
+
+// Get the snapshot state of a test file, loading its snapshot file on first use
+export function getSnapshotState(testPath: string) {
+  let state = snapshotStates.get(testPath);
+  if (!state) {
+    state = new SnapshotState(testPath, resolveSnapshotPath(testPath), getUpdateSnapshot());
+    snapshotStates.set(testPath, state);
+  }
+  return state;
+}
+
+// Write the snapshots of all the test files, in snapshot files and in the test sources,
+// handle obsolete snapshots and print a summary of each test file
+function saveSnapshots() {
+  // Obsolete snapshots are also reported for test files that did not take any snapshot
+  for (const testPath of testContextRegistry.getTestFiles()) {
+    if (fs.existsSync(resolveSnapshotPath(testPath))) {
+      getSnapshotState(testPath);
+    }
   }
-  
-  test.snapshot.setResolveSnapshotPath((testPath: string|undefined) => {
-    if (!testPath) {
-      throw new Error('Cannot resolve snapshot path without a test file path');
+
+  const removeObsolete = configRegistry.getConfig().removeObsoleteSnapshots && isUpdateMode();
+  const testsNotStarted = testContextRegistry.getTestsNotStarted();
+  for (const state of snapshotStates.values()) {
+    // Snapshots of skipped and filtered out tests are not obsolete
+    for (const testName of testsNotStarted) {
+      state.markSnapshotsAsCheckedForTest(testName);
     }
-    
-    const snapshotDir = path.join(path.dirname(testPath), '__snapshots__');
-    const snapshotFile = path.join(snapshotDir, `${path.basename(testPath)}.snap`);
-    
-    // Ensure the snapshot directory exists
-    if (!fs.existsSync(snapshotDir)) {
-      fs.mkdirSync(snapshotDir, { recursive: true });
+    const obsolete = removeObsolete ? [] : state.getUncheckedKeys();
+    const removed = removeObsolete ? state.removeUncheckedKeys() : 0;
+    state.save();
+
+    const obsoleteFiles = findObsoleteSnapshotFiles(state.snapshotPath);
+    if (removeObsolete) {
+      obsoleteFiles.forEach(file => fs.rmSync(file, { force: true }));
     }
-    
-    return snapshotFile;
-  });
-  
-  // Set default serializers
-  test.snapshot.setDefaultSnapshotSerializers([defaultSerializer]);
-  
-  resolverSet = true;
+
+    const summary = formatSnapshotSummary({
+      testPath: state.testPath,
+      added: state.added,
+      updated: state.updated,
+      matched: state.matched,
+      unmatched: state.unmatched,
+      obsolete,
+      removed,
+      obsoleteFiles: removeObsolete ? [] : obsoleteFiles,
+      removedFiles: removeObsolete ? obsoleteFiles : [],
+    });
+    // Written to stderr, stdout being the output of the test reporter
+    if (summary) {
+      process.stderr.write(`${summary}\n`);
+    }
+  }
+  saveInlineSnapshots();
+}
+
+// Get the name and snapshot state of the running test, snapshots are taken inside tests only
+function getCurrentSnapshotTest(matcherName: string) {
+  const testState = testContextRegistry.getCurrentTestState();
+  const testPath = testState?.testPath;
+  if (!testState?.currentTestName || !testPath) {
+    throw new Error(`${matcherName} can only be used inside a test`);
+  }
+  return { testName: testState.currentTestName, snapshotState: getSnapshotState(testPath) };
+}
+
+// Build the result of a snapshot matcher from the result of the comparison, with Jest's message
+function toMatcherResult(context: any, matcherName: string, matcherArgs: string, result: SnapshotMatchResult) {
+  return {
+    message: () => {
+      const hint = context.utils.matcherHint(`.${matcherName}`, undefined, matcherArgs);
+      if (result.pass) {
+        return `${hint}\n\nSnapshot name: \`${result.key}\``;
+      }
+      if (result.expected === undefined) {
+        return `${hint}\n\nSnapshot name: \`${result.key}\`\n\n` +
+          'New snapshot was not written. The update flag must be explicitly passed to write a new snapshot.\n\n' +
+          'This is likely because this test is run in a continuous integration (CI) environment in which snapshots are not written by default.\n\n' +
+          `Received: ${result.actual}`;
+      }
+      return `${hint}\n\nSnapshot name: \`${result.key}\`\n\n` +
+        context.utils.diff(result.expected, result.actual, {
+          aAnnotation: 'Snapshot',
+          bAnnotation: 'Received',
+        });
+    },
+    pass: result.pass,
+  };
 }
 
 // Function to set the current test context
@@ -46,47 +146,182 @@ export function setCurrentTestContext(context: any) {
   testContextRegistry.setCurrentTestContext(context);
 }
 
-// Extend Jest's expect with toMatchSnapshot
+// Snapshots cannot be negated, like in Jest
+function checkNotNegated(context: any, matcherName: string) {
+  if (context.isNot) {
+    throw new Error(`${matcherName} cannot be used with .not`);
+  }
+}
+
+const isObject = (value: any) => value !== null && typeof value === 'object' && !Array.isArray(value);
+
+// Replace the values of an object by the property matchers they matched, like Jest's deepMerge,
+// so that snapshots store the matchers instead of values changing between runs
+function mergeProperties(target: any, source: any): any {
+  if (isObject(target) && isObject(source)) {
+    const merged = { ...target };
+    for (const key of Object.keys(source)) {
+      if (isObject(source[key]) && !source[key].$$typeof) {
+        merged[key] = key in target ? mergeProperties(target[key], source[key]) : source[key];
+      } else if (Array.isArray(source[key])) {
+        merged[key] = mergeArrayProperties(target[key], source[key]);
+      } else {
+        merged[key] = source[key];
+      }
+    }
+    return merged;
+  }
+  if (Array.isArray(target) && Array.isArray(source)) {
+    return mergeArrayProperties(target, source);
+  }
+  return target;
+}
+
+// Replace the elements of an array by the property matchers they matched
+function mergeArrayProperties(target: any, source: any[]): any[] {
+  const merged = Array.from(target ?? []);
+  source.forEach((sourceElement, index) => {
+    const targetElement = merged[index];
+    if (Array.isArray(targetElement)) {
+      merged[index] = mergeArrayProperties(targetElement, sourceElement);
+    } else if (isObject(targetElement)) {
+      merged[index] = mergeProperties(targetElement, sourceElement);
+    } else {
+      merged[index] = sourceElement;
+    }
+  });
+  return merged;
+}
+
+// Split the arguments of a snapshot matcher taking optional property matchers first, like Jest:
+// a single string argument is the hint or the inline snapshot
+function splitPropertiesArgument(args: any[]): [any, any] {
+  if (args.length === 1 && typeof args[0] === 'string') {
+    return [undefined, args[0]];
+  }
+  return [args[0], args[1]];
+}
+
+// Compare a value with its snapshot, in the snapshot file or inline in the source
+function matchSnapshot(context: any, matcherName: string, received: any, options: { properties?: object; hint?: string; inlineSnapshot?: string; isInline?: boolean } = {}) {
+  checkNotNegated(context, matcherName);
+  const { properties, hint, inlineSnapshot, isInline = false } = options;
+  if (properties !== undefined && (typeof properties !== 'object' || properties === null)) {
+    throw new Error(`${matcherName}: expected properties must be an object`);
+  }
+  if (properties !== undefined && (typeof received !== 'object' || received === null)) {
+    throw new Error(`${matcherName}: received value must be a non-null object when the matcher has properties`);
+  }
+  if (hint !== undefined && typeof hint !== 'string') {
+    throw new Error(`${matcherName}: snapshot hint must be a string`);
+  }
+  if (inlineSnapshot !== undefined && typeof inlineSnapshot !== 'string') {
+    throw new Error(`${matcherName}: inline snapshot must be a string`);
+  }
+
+  const { testName, snapshotState } = getCurrentSnapshotTest(matcherName);
+  // Like Jest, the hint is part of the snapshot name
+  const fullTestName = hint ? `${testName}: ${hint}` : testName;
+  const matcherArgs = [
+    properties !== undefined && 'properties',
+    hint !== undefined && 'hint',
+    inlineSnapshot !== undefined && 'snapshot',
+  ].filter(Boolean).join(', ');
+
+  // Property matchers are checked first, the snapshot is compared only when they match
+  if (properties !== undefined) {
+    const propertiesPass = context.equals(received, properties, [
+      ...(context.customTesters ?? []),
+      context.utils.iterableEquality,
+      context.utils.subsetEquality,
+    ]);
+    if (!propertiesPass) {
+      const key = snapshotState.fail(fullTestName);
+      return {
+        message: () =>
+          `${context.utils.matcherHint(`.${matcherName}`, undefined, matcherArgs)}\n\nSnapshot name: \`${key}\`\n\n` +
+          context.utils.diff(properties, received, {
+            aAnnotation: 'Expected properties',
+            bAnnotation: 'Received value',
+          }),
+        pass: false,
+      };
+    }
+    received = mergeProperties(received, properties);
+  }
+
+  const result = snapshotState.match({
+    testName: fullTestName,
+    received,
+    inlineSnapshot: inlineSnapshot === undefined ? undefined : stripAddedIndentation(inlineSnapshot),
+    isInline,
+    matcherName,
+    error: context.error,
+  });
+  return toMatcherResult(context, matcherName, matcherArgs, result);
+}
+
+// Get the error thrown by a function, or the rejection of a promise with .rejects
+function getThrownError(context: any, matcherName: string, received: any) {
+  checkNotNegated(context, matcherName);
+  if (context.promise === 'rejects') {
+    return received;
+  }
+  if (typeof received !== 'function') {
+    throw new Error(`${context.utils.matcherHint(`.${matcherName}`)}\n\nReceived value must be a function`);
+  }
+  try {
+    received();
+  } catch (error) {
+    return error;
+  }
+  throw new Error(`${context.utils.matcherHint(`.${matcherName}`, undefined, '')}\n\nReceived function did not throw`);
+}
+
+// Extend Jest's expect with the snapshot matchers
 function extendExpect() {
-  // Add toMatchSnapshot to Jest's expect
+  // Add the snapshot matchers to Jest's expect
   if (!expectLib.extend) {
     console.warn('Warning: expect.extend is not available. Snapshot testing may not work correctly.');
     return;
   }
 
   expectLib.extend({
-    toMatchSnapshot(received: any) {
-      // Use the current test context
-      const context = testContextRegistry.getCurrentTestContext();
-      if (!context || !context.assert) {
-        throw new Error('Snapshot testing requires a test context with assert property');
-      }
-      
-      try {
-        // Use the Node.js test runner's snapshot functionality
-        context.assert.snapshot(received);
-        return {
-          message: () => 'Snapshot matches',
-          pass: true,
-        };
-      } catch (error: any) {
-        return {
-          message: () => error.message || 'Snapshot does not match',
-          pass: false,
-        };
-      }
+    toMatchSnapshot(received: any, ...args: any[]) {
+      const [properties, hint] = splitPropertiesArgument(args);
+      return matchSnapshot(this, 'toMatchSnapshot', received, { properties, hint });
+    },
+
+    toMatchInlineSnapshot(received: any, ...args: any[]) {
+      const [properties, inlineSnapshot] = splitPropertiesArgument(args);
+      return matchSnapshot(this, 'toMatchInlineSnapshot', received, { properties, inlineSnapshot, isInline: true });
+    },
+
+    // Errors are stored in snapshots by their message, like Jest
+    toThrowErrorMatchingSnapshot(received: any, hint?: string) {
+      const error = getThrownError(this, 'toThrowErrorMatchingSnapshot', received);
+      return matchSnapshot(this, 'toThrowErrorMatchingSnapshot', error?.message, { hint });
+    },
+
+    toThrowErrorMatchingInlineSnapshot(received: any, inlineSnapshot?: string) {
+      const error = getThrownError(this, 'toThrowErrorMatchingInlineSnapshot', received);
+      return matchSnapshot(this, 'toThrowErrorMatchingInlineSnapshot', error?.message, { inlineSnapshot, isInline: true });
     },
   });
 }
 
 // Initialize the snapshot functionality
 export function initializeSnapshot() {
-  setupSnapshotPathResolver();
   extendExpect();
+  // Custom serializers, added like with Jest's expect
+  Object.assign(expectLib, { addSnapshotSerializer: addSerializer });
+  // Snapshots are written once all the tests of the file ran
+  process.on('exit', () => saveSnapshots());
 }
 
 // Export the snapshot functionality to be used in the main module
 export const snapshotTesting = {
   initializeSnapshot,
   setCurrentTestContext,
+  getSnapshotState,
 };
@@ -0,0 +1,196 @@
+/**
+ * Serialization of snapshots, compatible with jest-snapshot
+ *
+ * Values are printed with pretty-format using the same options and plugins as Jest,
+ * so that snapshots written by Jest match the ones produced here. Custom serializers
+ * take precedence over the default plugins: the ones added with
+ * expect.addSnapshotSerializer, the last added first, then the configured ones in
+ * the order of the configuration.
+ */
+import { format as prettyFormat, plugins as prettyFormatPlugins } from 'pretty-format';
+import type { Plugin, NewPlugin } from 'pretty-format';
+import { requireConfiguredModule } from './config.js';
+import { configRegistry } from './registry.js';
+
+// Matches the indentation of the first non blank line
+const INDENTATION_REGEX = /^([^\S\n]*)\S/m;
+
+// Prints jest.fn() mocks like jest-snapshot's mock serializer
+const mockSerializer: NewPlugin = {
+  test: (value: any) => !!value && !!value._isMockFunction,
+  serialize: (value: any, config, indentation, depth, refs, printer) => {
+    const name = value.getMockName();
+    const nameString = name === 'jest.fn()' ? '' : ` ${name}`;
+
+    let callsString = '';
+    if (value.mock.calls.length !== 0) {
+      const indentationNext = indentation + config.indent;
+      callsString =
+        ` {${config.spacingOuter}${indentationNext}"calls": ${printer(value.mock.calls, config, indentationNext, depth, refs)}` +
+        `${config.min ? ', ' : ','}${config.spacingOuter}${indentationNext}"results": ${printer(value.mock.results, config, indentationNext, depth, refs)}` +
+        `${config.min ? '' : ','}${config.spacingOuter}${indentation}}`;
+    }
+
+    return `[MockFunction${nameString}]${callsString}`;
+  }
+};
+
+// Same plugins, in the same order, as jest-snapshot
+const defaultPlugins: Plugin[] = [
+  prettyFormatPlugins.ReactTestComponent,
+  prettyFormatPlugins.ReactElement,
+  prettyFormatPlugins.DOMElement,
+  prettyFormatPlugins.DOMCollection,
+  prettyFormatPlugins.Immutable,
+  prettyFormatPlugins.AsymmetricMatcher,
+  mockSerializer
+];
+
+// Serializers added with expect.addSnapshotSerializer, the last added first
+let addedPlugins: Plugin[] = [];
+
+// Serializers loaded from the configured module paths, reloaded when the configuration changes
+let configuredPlugins: { paths: string[]; plugins: Plugin[] } = { paths: [], plugins: [] };
+
+/**
+ * Loads a snapshot serializer module
+ * @param modulePath Path of the module, relative to the working directory, or package name
+ * @returns The serializer exported by the module
+ */
+function loadSerializer(modulePath: string): Plugin {
+  const plugin = requireConfiguredModule(modulePath);
+  if (!plugin || typeof plugin.test !== 'function' || (typeof plugin.serialize !== 'function' && typeof plugin.print !== 'function')) {
+    throw new Error(`Snapshot serializer "${modulePath}" must export an object with a test function and a serialize or print function`);
+  }
+  return plugin;
+}
+
+/**
+ * Adds a snapshot serializer, taking precedence over all the others
+ * @param plugin pretty-format plugin, with test and serialize or print functions
+ */
+export function addSerializer(plugin: Plugin) {
+  addedPlugins = [plugin, ...addedPlugins];
+}
+
+/**
+ * Gets the snapshot serializers, in order of precedence
+ * @returns Added, configured and default serializers
+ */
+export function getSerializers(): Plugin[] {
+  const { snapshotSerializers } = configRegistry.getConfig();
+  if (configuredPlugins.paths !== snapshotSerializers) {
+    configuredPlugins = { paths: snapshotSerializers, plugins: snapshotSerializers.map(loadSerializer) };
+  }
+  return [...addedPlugins, ...configuredPlugins.plugins, ...defaultPlugins];
+}
+
+/**
+ * Normalizes Windows line endings
+ * @param string String to normalize
+ * @returns String with \n line endings only
+ */
+export function normalizeNewlines(string: string): string {
+  return string.replace(/\r\n|\r/g, '\n');
+}
+
+/**
+ * Serializes a value for a snapshot
+ * @param value Value to serialize
+ * @returns Serialized value
+ */
+export function serialize(value: unknown): string {
+  return normalizeNewlines(prettyFormat(value, {
+    escapeRegex: true,
+    escapeString: false,
+    indent: 2,
+    plugins: getSerializers(),
+    printBasicPrototype: false,
+    printFunctionName: false
+  }));
+}
+
+/**
+ * Surrounds multi-line snapshots with line breaks, as Jest stores them
+ * @param data Serialized value
+ * @returns Snapshot data
+ */
+export function addExtraLineBreaks(data: string): string {
+  return data.includes('\n') ? `\n${data}\n` : data;
+}
+
+/**
+ * Removes the line breaks added by addExtraLineBreaks
+ * @param data Snapshot data
+ * @returns Serialized value
+ */
+export function removeExtraLineBreaks(data: string): string {
+  return data.length > 2 && data.startsWith('\n') && data.endsWith('\n') ? data.slice(1, -1) : data;
+}
+
+/**
+ * Escapes a string to be placed in a template literal
+ * @param string String to escape
+ * @returns Escaped string
+ */
+export function escapeBacktickString(string: string): string {
+  return string.replace(/`|\\|\${/g, '\\$&');
+}
+
+/**
+ * Removes the indentation added to an inline snapshot to line it up with the code
+ * @param inlineSnapshot Inline snapshot, as found in the source
+ * @returns Inline snapshot at indent 0
+ */
+export function stripAddedIndentation(inlineSnapshot: string): string {
+  const match = inlineSnapshot.match(INDENTATION_REGEX);
+  if (!match || !match[1]) {
+    // No indentation
+    return inlineSnapshot;
+  }
+
+  const indentation = match[1];
+  const lines = inlineSnapshot.split('\n');
+  if (lines.length <= 2 || lines[0].trim() !== '' || lines[lines.length - 1].trim() !== '') {
+    // Only multi-line snapshots starting and ending with a blank line are indented
+    return inlineSnapshot;
+  }
+
+  for (let i = 1; i < lines.length - 1; i++) {
+    if (lines[i] !== '') {
+      if (!lines[i].startsWith(indentation)) {
+        // Lines with less indentation than the first one, leave the snapshot as is
+        return inlineSnapshot;
+      }
+      lines[i] = lines[i].substring(indentation.length);
+    }
+  }
+
+  // The last line only holds the indentation of the closing backtick
+  lines[lines.length - 1] = '';
+  return lines.join('\n');
+}
+
+/**
+ * Indents an inline snapshot to line it up with the code calling the matcher
+ * @param snapshot Snapshot data
+ * @param indentation Indentation of the line calling the matcher
+ * @returns Indented snapshot
+ */
+export function indentInlineSnapshot(snapshot: string, indentation: string): string {
+  const lines = snapshot.split('\n');
+  if (lines.length < 2) {
+    return snapshot;
+  }
+  return lines.map((line, index) => {
+    if (index === lines.length - 1) {
+      // The closing backtick goes at the same level as the matcher call
+      return indentation + line;
+    }
+    if (index === 0 || line === '') {
+      // First line is either a single line snapshot or blank, and blank lines stay blank
+      return line;
+    }
+    return indentation + '  ' + line;
+  }).join('\n');
+}
@@ -0,0 +1,79 @@
+/**
+ * Resolution of snapshot files, compatible with Jest's snapshotResolver
+ *
+ * By default snapshot files are stored in a __snapshots__ directory next to the test
+ * file. A custom resolver module can store them anywhere, as long as it can also
+ * resolve the test file back from the snapshot file, which is checked when loading it.
+ */
+import path from 'node:path';
+import { requireConfiguredModule } from './config.js';
+import { configRegistry } from './registry.js';
+
+// Extension of snapshot files
+export const SNAPSHOT_EXTENSION = '.snap';
+
+/**
+ * Snapshot resolver, the interface of Jest's snapshotResolver modules
+ */
+export interface SnapshotResolver {
+  resolveSnapshotPath(testPath: string, snapshotExtension: string): string;
+  resolveTestPath(snapshotPath: string, snapshotExtension: string): string;
+  testPathForConsistencyCheck: string;
+}
+
+// Default resolver, in __snapshots__ next to the test file
+const defaultResolver: SnapshotResolver = {
+  resolveSnapshotPath: (testPath, snapshotExtension) =>
+    path.join(path.dirname(testPath), '__snapshots__', path.basename(testPath) + snapshotExtension),
+  resolveTestPath: (snapshotPath, snapshotExtension) =>
+    path.join(path.dirname(path.dirname(snapshotPath)), path.basename(snapshotPath, snapshotExtension)),
+  testPathForConsistencyCheck: path.join('some', '__tests__', 'example.test.js')
+};
+
+// Resolver loaded from the configured module, reloaded when the configuration changes
+let configuredResolver: { modulePath?: string; resolver: SnapshotResolver } = { resolver: defaultResolver };
+
+/**
+ * Loads a snapshot resolver module and checks that it resolves test files back
+ * @param modulePath Path of the module, relative to the working directory, or package name
+ * @returns The resolver exported by the module
+ */
+function loadResolver(modulePath: string): SnapshotResolver {
+  const resolver = requireConfiguredModule(modulePath);
+  for (const name of ['resolveSnapshotPath', 'resolveTestPath'] as const) {
+    if (typeof resolver?.[name] !== 'function') {
+      throw new Error(`Snapshot resolver "${modulePath}" must export a ${name} function`);
+    }
+  }
+  if (typeof resolver.testPathForConsistencyCheck !== 'string') {
+    throw new Error(`Snapshot resolver "${modulePath}" must export a testPathForConsistencyCheck string`);
+  }
+
+  const testPath = resolver.testPathForConsistencyCheck;
+  const snapshotPath = resolver.resolveSnapshotPath(testPath, SNAPSHOT_EXTENSION);
+  const resolvedTestPath = resolver.resolveTestPath(snapshotPath, SNAPSHOT_EXTENSION);
+  if (resolvedTestPath !== testPath) {
+    throw new Error(
+      `Inconsistent snapshot resolver "${modulePath}": resolveSnapshotPath and resolveTestPath must be the inverse of each other.\n` +
+      `testPathForConsistencyCheck: ${testPath}\n` +
+      `resolveSnapshotPath: ${snapshotPath}\n` +
+      `resolveTestPath: ${resolvedTestPath}`
+    );
+  }
+  return resolver;
+}
+
+/**
+ * Gets the snapshot resolver, the configured one or the default one
+ * @returns Snapshot resolver
+ */
+export function getSnapshotResolver(): SnapshotResolver {
+  const { snapshotResolver } = configRegistry.getConfig();
+  if (configuredResolver.modulePath !== snapshotResolver) {
+    configuredResolver = {
+      modulePath: snapshotResolver,
+      resolver: snapshotResolver ? loadResolver(snapshotResolver) : defaultResolver
+    };
+  }
+  return configuredResolver.resolver;
+}
@@ -0,0 +1,263 @@
+/**
+ * Snapshot state of a test file, compatible with jest-snapshot
+ *
+ * Snapshots are stored in Jest's .snap format, a JavaScript file assigning each
+ * snapshot to `exports[\`<test name> <counter>\`]`, so that existing Jest snapshot
+ * files are used as they are. Keys are made of the full name of the test, describe
+ * blocks included, and of a counter of the snapshots taken by the test.
+ */
+import fs from 'node:fs';
+import path from 'node:path';
+import { getCallerLocation } from './callSite.js';
+import { scheduleInlineSnapshot } from './inlineSnapshots.js';
+import { addExtraLineBreaks, escapeBacktickString, normalizeNewlines, removeExtraLineBreaks, serialize } from './snapshotFormat.js';
+
+// Header of the snapshot files written by Jest
+const SNAPSHOT_HEADER = '// Jest Snapshot v1, https://goo.gl/fbAQLP';
+
+/**
+ * When snapshots are written, like Jest's --ci and --updateSnapshot flags:
+ * all snapshots, only new ones, or none
+ */
+export type SnapshotUpdateState = 'all' | 'new' | 'none';
+
+/**
+ * Snapshot to compare with a received value
+ */
+export interface SnapshotMatchOptions {
+  // Full name of the test, describe blocks included
+  testName: string;
+  // Value to compare with the snapshot
+  received: unknown;
+  // Inline snapshot found in the source, for inline matchers
+  inlineSnapshot?: string;
+  // Whether the snapshot is stored in the source rather than in the snapshot file
+  isInline?: boolean;
+  // Name of the matcher, used to find inline snapshots in the source
+  matcherName?: string;
+  // Error created when the matcher was called, locating inline snapshots of asynchronous matchers
+  error?: Error;
+}
+
+/**
+ * Result of a snapshot comparison
+ */
+export interface SnapshotMatchResult {
+  // Received value, serialized
+  actual: string;
+  // Stored snapshot, undefined when there is none
+  expected?: string;
+  // Key of the snapshot in the snapshot file
+  key: string;
+  pass: boolean;
+}
+
+/**
+ * Orders keys like the natural-compare package used by Jest, numbers by value
+ * @param a First key
+ * @param b Second key
+ * @returns Negative, zero or positive like a compare function of Array.prototype.sort
+ */
+function naturalCompare(a: string, b: string): number {
+  const chunksA = a.match(/\d+|\D+/g) ?? [];
+  const chunksB = b.match(/\d+|\D+/g) ?? [];
+  for (let i = 0; i < Math.min(chunksA.length, chunksB.length); i++) {
+    const chunkA = chunksA[i];
+    const chunkB = chunksB[i];
+    if (chunkA === chunkB) {
+      continue;
+    }
+    if (/^\d/.test(chunkA) && /^\d/.test(chunkB)) {
+      return Number(chunkA) - Number(chunkB) || (chunkA < chunkB ? -1 : 1);
+    }
+    return chunkA < chunkB ? -1 : 1;
+  }
+  return chunksA.length - chunksB.length;
+}
+
+/**
+ * Reads the snapshots of a snapshot file
+ * @param snapshotPath Path of the snapshot file
+ * @returns Snapshots by key, empty when the file does not exist
+ */
+function readSnapshotFile(snapshotPath: string): Record<string, string> {
+  const data: Record<string, string> = Object.create(null);
+  if (!fs.existsSync(snapshotPath)) {
+    return data;
+  }
+  // Snapshot files are JavaScript, evaluated like Jest does
+  const populate = new Function('exports', fs.readFileSync(snapshotPath, 'utf8'));
+  populate(data);
+  return data;
+}
+
+/**
+ * Gets the name of the test a snapshot key belongs to
+ * @param key Snapshot key
+ * @returns Test name, hint included
+ */
+function keyToTestName(key: string): string {
+  return key.replace(/ \d+$/, '');
+}
+
+/**
+ * Prints a string as a template literal
+ * @param string String to print
+ * @returns Template literal source
+ */
+function printBacktickString(string: string): string {
+  return '`' + escapeBacktickString(string) + '`';
+}
+
+/**
+ * Snapshots of a test file, with the counters Jest reports at the end of a run
+ */
+export class SnapshotState {
+  added = 0;
+  updated = 0;
+  matched = 0;
+  unmatched = 0;
+  expand = false;
+  _updateSnapshot: SnapshotUpdateState;
+  _counters = new Map<string, number>();
+  private snapshotData: Record<string, string>;
+  private uncheckedKeys: Set<string>;
+  private dirty = false;
+
+  constructor(readonly testPath: string, readonly snapshotPath: string, updateSnapshot: SnapshotUpdateState) {
+    this._updateSnapshot = updateSnapshot;
+    this.snapshotData = readSnapshotFile(snapshotPath);
+    this.uncheckedKeys = new Set(Object.keys(this.snapshotData));
+  }
+
+  /**
+   * Counts a snapshot as failed without comparing it, when its property matchers do not match
+   * @param testName Full name of the test
+   * @returns Key of the snapshot
+   */
+  fail(testName: string): string {
+    const count = (this._counters.get(testName) ?? 0) + 1;
+    this._counters.set(testName, count);
+    const key = `${testName} ${count}`;
+    this.uncheckedKeys.delete(key);
+    this.unmatched++;
+    return key;
+  }
+
+  /**
+   * Compares a value with its snapshot, writing the snapshot when the update state allows it
+   * @param options Snapshot to compare
+   * @returns Result of the comparison
+   */
+  match({ testName, received, inlineSnapshot, isInline = false, matcherName, error }: SnapshotMatchOptions): SnapshotMatchResult {
+    const count = (this._counters.get(testName) ?? 0) + 1;
+    this._counters.set(testName, count);
+    const key = `${testName} ${count}`;
+    this.uncheckedKeys.delete(key);
+
+    const receivedSerialized = addExtraLineBreaks(serialize(received));
+    const expected = isInline ? inlineSnapshot : this.snapshotData[key];
+    const pass = expected !== undefined && removeExtraLineBreaks(expected) === removeExtraLineBreaks(receivedSerialized);
+    const hasSnapshot = expected !== undefined;
+    const result = {
+      actual: removeExtraLineBreaks(receivedSerialized),
+      expected: expected === undefined ? undefined : removeExtraLineBreaks(expected),
+      key
+    };
+
+    if ((hasSnapshot && this._updateSnapshot === 'all') || (!hasSnapshot && this._updateSnapshot !== 'none')) {
+      if (pass) {
+        this.matched++;
+      } else {
+        this.addSnapshot(key, receivedSerialized, { isInline, matcherName, error });
+        if (hasSnapshot) {
+          this.updated++;
+        } else {
+          this.added++;
+        }
+      }
+      return { ...result, pass: true };
+    }
+
+    if (pass) {
+      this.matched++;
+    } else {
+      this.unmatched++;
+    }
+    return { ...result, pass };
+  }
+
+  /**
+   * Marks the snapshots of a test as checked, for tests that did not run
+   * @param testName Full name of the test
+   */
+  markSnapshotsAsCheckedForTest(testName: string) {
+    for (const key of this.uncheckedKeys) {
+      const keyTestName = keyToTestName(key);
+      if (keyTestName === testName || keyTestName.startsWith(`${testName}: `)) {
+        this.uncheckedKeys.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Gets the keys of the snapshots not checked by any test, which are obsolete
+   * @returns Obsolete keys, sorted
+   */
+  getUncheckedKeys(): string[] {
+    return [...this.uncheckedKeys].sort(naturalCompare);
+  }
+
+  /**
+   * Removes the obsolete snapshots, only when updating all snapshots
+   * @returns Number of snapshots removed
+   */
+  removeUncheckedKeys(): number {
+    if (this._updateSnapshot !== 'all' || this.uncheckedKeys.size === 0) {
+      return 0;
+    }
+    const removed = this.uncheckedKeys.size;
+    for (const key of this.uncheckedKeys) {
+      delete this.snapshotData[key];
+    }
+    this.uncheckedKeys.clear();
+    this.dirty = true;
+    return removed;
+  }
+
+  /**
+   * Writes the snapshot file if any snapshot changed, or deletes it when no snapshot is left
+   */
+  save(): void {
+    if (!this.dirty) {
+      return;
+    }
+    this.dirty = false;
+    if (Object.keys(this.snapshotData).length === 0) {
+      fs.rmSync(this.snapshotPath, { force: true });
+      return;
+    }
+    const snapshots = Object.keys(this.snapshotData)
+      .sort(naturalCompare)
+      .map(key => `exports[${printBacktickString(key)}] = ${printBacktickString(normalizeNewlines(this.snapshotData[key]))};`);
+
+    fs.mkdirSync(path.dirname(this.snapshotPath), { recursive: true });
+    fs.writeFileSync(this.snapshotPath, `${SNAPSHOT_HEADER}\n\n${snapshots.join('\n\n')}\n`);
+  }
+
+  /**
+   * Stores a snapshot, in the snapshot file or in the source of the test
+   */
+  private addSnapshot(key: string, receivedSerialized: string, { isInline, matcherName, error }: Partial<SnapshotMatchOptions>) {
+    if (!isInline) {
+      this.snapshotData[key] = receivedSerialized;
+      this.dirty = true;
+      return;
+    }
+    const location = getCallerLocation(error);
+    if (!location) {
+      throw new Error(`Could not find the location of the ${matcherName} call to write the snapshot`);
+    }
+    scheduleInlineSnapshot(location, matcherName!, receivedSerialized);
+  }
+}
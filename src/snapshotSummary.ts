@@ -0,0 +1,88 @@
+/**
+ * Summary of the snapshots of a test file, printed at the end of the run
+ *
+ * Mirrors the "Snapshot Summary" Jest prints after a run: snapshots that failed,
+ * are obsolete or were removed, written, updated and passed, and obsolete snapshot
+ * files. Nothing is printed when all snapshots passed.
+ */
+import path from 'node:path';
+
+/**
+ * Counts and obsolete entries of the snapshots of a test file
+ */
+export interface SnapshotSummary {
+  testPath: string;
+  added: number;
+  updated: number;
+  matched: number;
+  unmatched: number;
+  // Keys of the obsolete snapshots that were kept
+  obsolete: string[];
+  // Number of obsolete snapshots that were removed
+  removed: number;
+  // Obsolete snapshot files that were kept
+  obsoleteFiles: string[];
+  // Obsolete snapshot files that were removed
+  removedFiles: string[];
+}
+
+/**
+ * Formats a count of snapshots or snapshot files
+ * @param count Count
+ * @param noun Noun, singular
+ * @returns Count followed by the noun, plural when needed
+ */
+function pluralize(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Formats a list of snapshot names or files
+ * @param items Items to list
+ * @returns Lines listing the items
+ */
+function formatList(items: string[]): string[] {
+  return items.map(item => `     • ${item}`);
+}
+
+/**
+ * Formats the snapshot summary of a test file
+ * @param summary Summary to format
+ * @returns Summary lines to print, or undefined when there is nothing to report
+ */
+export function formatSnapshotSummary(summary: SnapshotSummary): string | undefined {
+  const { added, updated, matched, unmatched, obsolete, removed, obsoleteFiles, removedFiles } = summary;
+  if (!added && !updated && !unmatched && !obsolete.length && !removed && !obsoleteFiles.length && !removedFiles.length) {
+    return undefined;
+  }
+
+  const lines = [`Snapshot Summary (${path.relative(process.cwd(), summary.testPath)})`];
+  if (unmatched) {
+    lines.push(` › ${pluralize(unmatched, 'snapshot')} failed. Inspect your code changes or run with --test-update-snapshots or JEST_COMPAT_UPDATE_SNAPSHOTS=true to update them.`);
+  }
+  if (obsolete.length) {
+    lines.push(` › ${pluralize(obsolete.length, 'snapshot')} obsolete. To remove them, run with --test-update-snapshots or JEST_COMPAT_UPDATE_SNAPSHOTS=true and removeObsoleteSnapshots.`);
+    lines.push(...formatList(obsolete));
+  }
+  if (removed) {
+    lines.push(` › ${pluralize(removed, 'snapshot')} removed.`);
+  }
+  if (added) {
+    lines.push(` › ${pluralize(added, 'snapshot')} written.`);
+  }
+  if (updated) {
+    lines.push(` › ${pluralize(updated, 'snapshot')} updated.`);
+  }
+  if (matched) {
+    lines.push(` › ${pluralize(matched, 'snapshot')} passed.`);
+  }
+  if (obsoleteFiles.length) {
+    lines.push(` › ${pluralize(obsoleteFiles.length, 'snapshot file')} obsolete. To remove them, run with --test-update-snapshots or JEST_COMPAT_UPDATE_SNAPSHOTS=true and removeObsoleteSnapshots.`);
+    lines.push(...formatList(obsoleteFiles.map(file => path.relative(process.cwd(), file))));
+  }
+  if (removedFiles.length) {
+    lines.push(` › ${pluralize(removedFiles.length, 'snapshot file')} removed.`);
+    lines.push(...formatList(removedFiles.map(file => path.relative(process.cwd(), file))));
+  }
+  return lines.join('\n');
+}
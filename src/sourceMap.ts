@@ -0,0 +1,192 @@
+/**
+ * Source maps of rewritten sources
+ *
+ * Sources are rewritten by appending slices of the original source and generated code,
+ * each mapped back to a position of the original source. Original slices are mapped
+ * token by token, so stack traces keep pointing at the right columns.
+ */
+
+// Base64 digits of the VLQ encoding used by source maps
+const BASE64_DIGITS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * Mapping of a generated position to a position of the original source, all 0-based
+ */
+interface Mapping {
+  generatedLine: number;
+  generatedColumn: number;
+  originalLine: number;
+  originalColumn: number;
+}
+
+/**
+ * Encodes a number in base64 VLQ
+ * @param value Number to encode
+ * @returns Encoded number
+ */
+function encodeVLQ(value: number): string {
+  let vlq = value < 0 ? (-value << 1) | 1 : value << 1;
+  let encoded = '';
+  do {
+    let digit = vlq & 31;
+    vlq >>>= 5;
+    if (vlq > 0) {
+      digit |= 32;
+    }
+    encoded += BASE64_DIGITS[digit];
+  } while (vlq > 0);
+  return encoded;
+}
+
+/**
+ * Encodes mappings in the format of the "mappings" field of source maps
+ * @param mappings Mappings, sorted by generated position
+ * @returns Encoded mappings
+ */
+function encodeMappings(mappings: Mapping[]): string {
+  const lines: string[][] = [];
+  let previousOriginalLine = 0;
+  let previousOriginalColumn = 0;
+  let previousGeneratedLine = -1;
+  let previousGeneratedColumn = 0;
+
+  for (const mapping of mappings) {
+    if (mapping.generatedLine !== previousGeneratedLine) {
+      previousGeneratedLine = mapping.generatedLine;
+      previousGeneratedColumn = 0;
+    }
+    while (lines.length <= mapping.generatedLine) {
+      lines.push([]);
+    }
+    lines[mapping.generatedLine].push(
+      encodeVLQ(mapping.generatedColumn - previousGeneratedColumn) +
+      encodeVLQ(0) +
+      encodeVLQ(mapping.originalLine - previousOriginalLine) +
+      encodeVLQ(mapping.originalColumn - previousOriginalColumn)
+    );
+    previousGeneratedColumn = mapping.generatedColumn;
+    previousOriginalLine = mapping.originalLine;
+    previousOriginalColumn = mapping.originalColumn;
+  }
+  return lines.map(segments => segments.join(',')).join(';');
+}
+
+/**
+ * Builds a rewritten source along with its source map
+ */
+export class MappedSourceBuilder {
+  private code = '';
+  private generatedLine = 0;
+  private generatedColumn = 0;
+  private readonly mappings: Mapping[] = [];
+  private readonly lineStarts: number[] = [0];
+
+  constructor(private readonly source: string) {
+    for (let i = source.indexOf('\n'); i !== -1; i = source.indexOf('\n', i + 1)) {
+      this.lineStarts.push(i + 1);
+    }
+  }
+
+  /**
+   * Appends a slice of the original source
+   * @param start Index of the start of the slice
+   * @param end Index of the end of the slice, excluded
+   */
+  appendOriginal(start: number, end: number) {
+    for (let i = start; i < end; i++) {
+      // Map the start of each token, whitespace excluded
+      const char = this.source[i];
+      const previous = i === start ? '' : this.source[i - 1];
+      if (!/\s/.test(char) && (i === start || /\s/.test(previous) || !isWordChar(char) || !isWordChar(previous))) {
+        this.addMapping(i);
+      }
+      this.appendChar(char);
+    }
+  }
+
+  /**
+   * Appends generated code
+   * @param text Generated code
+   * @param originalIndex Index in the original source the code comes from
+   */
+  appendGenerated(text: string, originalIndex: number) {
+    this.addMapping(originalIndex);
+    for (const char of text) {
+      this.appendChar(char);
+    }
+  }
+
+  /**
+   * Gets the rewritten source, with an inline source map
+   * @param file Path of the original source
+   * @returns Rewritten source
+   */
+  toSourceWithMap(file: string): string {
+    const map = {
+      version: 3,
+      sources: [file],
+      sourcesContent: [this.source],
+      names: [],
+      mappings: encodeMappings(this.mappings)
+    };
+    const encoded = Buffer.from(JSON.stringify(map)).toString('base64');
+    return `${this.code}\n//# sourceMappingURL=data:application/json;charset=utf-8;base64,${encoded}\n`;
+  }
+
+  /**
+   * Gets the rewritten source, without a source map
+   * @returns Rewritten source
+   */
+  toSource(): string {
+    return this.code;
+  }
+
+  private appendChar(char: string) {
+    this.code += char;
+    if (char === '\n') {
+      this.generatedLine++;
+      this.generatedColumn = 0;
+    } else {
+      this.generatedColumn++;
+    }
+  }
+
+  private addMapping(originalIndex: number) {
+    const originalLine = findLine(this.lineStarts, originalIndex);
+    this.mappings.push({
+      generatedLine: this.generatedLine,
+      generatedColumn: this.generatedColumn,
+      originalLine,
+      originalColumn: originalIndex - this.lineStarts[originalLine]
+    });
+  }
+}
+
+/**
+ * Checks if a character can be part of an identifier
+ * @param char Character to check
+ * @returns True for identifier characters
+ */
+function isWordChar(char: string): boolean {
+  return /[\w$]/.test(char);
+}
+
+/**
+ * Finds the line of an index
+ * @param lineStarts Indexes of the start of each line
+ * @param index Index in the source
+ * @returns 0-based line of the index
+ */
+function findLine(lineStarts: number[], index: number): number {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (lineStarts[middle] <= index) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return low;
+}
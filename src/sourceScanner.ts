@@ -0,0 +1,221 @@
+/**
+ * Minimal JavaScript source scanner
+ *
+ * Just enough tokenization to rewrite test sources without a full parser: it skips
+ * strings, template literals, comments and regular expression literals, so that
+ * brackets and commas inside them are not mistaken for code.
+ */
+
+// Characters after which a / starts a regular expression rather than a division
+const REGEX_PRECEDING_CHARS = new Set(['', '(', ',', '=', ':', '[', '!', '&', '|', '?', '{', '}', ';', '+', '-', '*', '%', '<', '>', '~', '^']);
+
+// Keywords after which a / starts a regular expression
+const REGEX_PRECEDING_KEYWORDS = /(?:^|[^\w$])(?:return|typeof|instanceof|in|of|new|delete|void|throw|case|do|else|yield|await)$/;
+
+/**
+ * Range of source code, end excluded
+ */
+export interface SourceRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Skips a quoted string
+ * @param source Source code
+ * @param index Index of the opening quote
+ * @returns Index after the closing quote
+ */
+function skipString(source: string, index: number): number {
+  const quote = source[index];
+  let i = index + 1;
+  while (i < source.length && source[i] !== quote) {
+    i += source[i] === '\\' ? 2 : 1;
+  }
+  return i + 1;
+}
+
+/**
+ * Skips a template literal, including the expressions it contains
+ * @param source Source code
+ * @param index Index of the opening backtick
+ * @returns Index after the closing backtick
+ */
+function skipTemplate(source: string, index: number): number {
+  let i = index + 1;
+  while (i < source.length && source[i] !== '`') {
+    if (source[i] === '\\') {
+      i += 2;
+    } else if (source[i] === '$' && source[i + 1] === '{') {
+      i = skipBalanced(source, i + 1);
+    } else {
+      i++;
+    }
+  }
+  return i + 1;
+}
+
+/**
+ * Skips a regular expression literal
+ * @param source Source code
+ * @param index Index of the opening slash
+ * @returns Index after the flags
+ */
+function skipRegex(source: string, index: number): number {
+  let i = index + 1;
+  let inClass = false;
+  while (i < source.length && source[i] !== '\n') {
+    const char = source[i];
+    if (char === '\\') {
+      i += 2;
+      continue;
+    }
+    if (char === '[') {
+      inClass = true;
+    } else if (char === ']') {
+      inClass = false;
+    } else if (char === '/' && !inClass) {
+      break;
+    }
+    i++;
+  }
+  i++;
+  while (i < source.length && /[a-z]/i.test(source[i])) {
+    i++;
+  }
+  return i;
+}
+
+/**
+ * Checks if a slash at the given index starts a regular expression
+ * @param source Source code
+ * @param index Index of the slash
+ * @returns True for a regular expression, false for a division
+ */
+function startsRegex(source: string, index: number): boolean {
+  let i = index - 1;
+  while (i >= 0 && /\s/.test(source[i])) {
+    i--;
+  }
+  const preceding = i >= 0 ? source[i] : '';
+  return REGEX_PRECEDING_CHARS.has(preceding) || REGEX_PRECEDING_KEYWORDS.test(source.slice(Math.max(0, i - 10), i + 1));
+}
+
+/**
+ * Skips whatever is at the given index if it is a string, template, comment or regular expression
+ * @param source Source code
+ * @param index Current index
+ * @returns Index after the skipped token, or the same index if there is nothing to skip
+ */
+export function skipNonCode(source: string, index: number): number {
+  const char = source[index];
+  const next = source[index + 1];
+  if (char === '"' || char === "'") {
+    return skipString(source, index);
+  }
+  if (char === '`') {
+    return skipTemplate(source, index);
+  }
+  if (char === '/' && next === '/') {
+    const end = source.indexOf('\n', index);
+    return end === -1 ? source.length : end;
+  }
+  if (char === '/' && next === '*') {
+    const end = source.indexOf('*/', index + 2);
+    return end === -1 ? source.length : end + 2;
+  }
+  if (char === '/' && startsRegex(source, index)) {
+    return skipRegex(source, index);
+  }
+  return index;
+}
+
+/**
+ * Skips a balanced group of brackets
+ * @param source Source code
+ * @param index Index of the opening bracket
+ * @returns Index after the matching closing bracket
+ */
+export function skipBalanced(source: string, index: number): number {
+  let depth = 0;
+  let i = index;
+  while (i < source.length) {
+    const skipped = skipNonCode(source, i);
+    if (skipped !== i) {
+      i = skipped;
+      continue;
+    }
+    const char = source[i];
+    if (char === '(' || char === '[' || char === '{') {
+      depth++;
+    } else if (char === ')' || char === ']' || char === '}') {
+      depth--;
+      if (depth === 0) {
+        return i + 1;
+      }
+    }
+    i++;
+  }
+  return source.length;
+}
+
+/**
+ * Finds the arguments of a call
+ * @param source Source code
+ * @param openIndex Index of the opening parenthesis of the call
+ * @returns Ranges of the arguments, trimmed, and the index of the closing parenthesis
+ */
+export function scanCallArguments(source: string, openIndex: number): { args: SourceRange[]; closeIndex: number } {
+  const args: SourceRange[] = [];
+  let argumentStart = openIndex + 1;
+  let i = openIndex + 1;
+
+  const pushArgument = (end: number) => {
+    const text = source.slice(argumentStart, end);
+    const start = argumentStart + (text.length - text.trimStart().length);
+    const trimmedEnd = argumentStart + text.trimEnd().length;
+    if (trimmedEnd > start) {
+      args.push({ start, end: trimmedEnd });
+    }
+  };
+
+  while (i < source.length) {
+    const skipped = skipNonCode(source, i);
+    if (skipped !== i) {
+      i = skipped;
+      continue;
+    }
+    const char = source[i];
+    if (char === '(' || char === '[' || char === '{') {
+      i = skipBalanced(source, i);
+      continue;
+    }
+    if (char === ',') {
+      pushArgument(i);
+      argumentStart = i + 1;
+    } else if (char === ')') {
+      pushArgument(i);
+      return { args, closeIndex: i };
+    }
+    i++;
+  }
+  throw new Error('Unterminated call in source');
+}
+
+/**
+ * Converts a 1-based line and column to an index in the source
+ * @param source Source code
+ * @param line 1-based line number
+ * @param column 1-based column number
+ * @returns Index in the source
+ */
+export function indexOfPosition(source: string, line: number, column: number): number {
+  let index = 0;
+  for (let current = 1; current < line; current++) {
+    index = source.indexOf('\n', index) + 1;
+    if (index === 0) {
+      return source.length;
+    }
+  }
+  return index + column - 1;
+}
@@ -0,0 +1,248 @@
+/**
+ * Implementation of Jest's .each functionality for test and describe functions
+ *
+ * This module turns a table of data into one test (or describe block) per row,
+ * following the same rules as jest-each:
+ * 1. Array tables: either an array of arrays (each row spread as arguments),
+ *    an array of values (each value passed as the only argument) or an array
+ *    of objects (each object passed as the only argument, titles use $variable)
+ * 2. Tagged template tables: the first row holds the headings, separated by |,
+ *    the following interpolated values are split into rows of objects
+ * 3. Titles are formatted with printf-style placeholders (%s, %d, %p, %# ...)
+ *    or $variable interpolation for objects and tagged templates
+ */
+import util from 'node:util';
+import { format as prettyFormat } from 'pretty-format';
+import { takesDoneCallback } from './doneCallback.js';
+
+// Placeholders supported in array table titles, same set as jest-each
+const SUPPORTED_PLACEHOLDERS = /%[sdifjoOp#]/g;
+const PRETTY_PLACEHOLDER = '%p';
+const INDEX_PLACEHOLDER = '%#';
+const PLACEHOLDER_PREFIX = '%';
+const ESCAPED_PLACEHOLDER_PREFIX = /%%/g;
+const PLACEHOLDER_ESCAPE = '@@__JEST_EACH_PLACEHOLDER_ESCAPE__@@';
+
+/**
+ * A single row of a table, ready to be registered as a test
+ */
+type EachRow = {
+  title: string;
+  args: any[];
+};
+
+/**
+ * Function used to register each row, e.g. test, test.only or describe.skip
+ */
+type RegisterFunction = (name: string, fn?: any, timeout?: any) => any;
+
+/**
+ * Pretty formats a value the way jest-each does in titles
+ * @param value Value to format
+ * @returns Compact, single line representation of the value
+ */
+function pretty(value: any): string {
+  return prettyFormat(value, { maxDepth: 1, min: true });
+}
+
+/**
+ * Formats a title for an array row using printf-style placeholders
+ * @param title Title template
+ * @param row Values of the row
+ * @param rowIndex Index of the row in the table
+ * @returns Formatted title
+ */
+function formatTitle(title: string, row: any[], rowIndex: number): string {
+  const initialTitle = title
+    .replace(ESCAPED_PLACEHOLDER_PREFIX, PLACEHOLDER_ESCAPE)
+    .replace(INDEX_PLACEHOLDER, rowIndex.toString());
+
+  return row
+    .reduce((formattedTitle: string, value: any) => {
+      const [placeholder] = formattedTitle.match(SUPPORTED_PLACEHOLDERS) || [];
+      if (!placeholder) {
+        return formattedTitle;
+      }
+
+      // Escape % in string values so they are not taken as placeholders later
+      const normalisedValue = typeof value === 'string'
+        ? value.replace(new RegExp(PLACEHOLDER_PREFIX, 'g'), PLACEHOLDER_ESCAPE)
+        : value;
+
+      if (placeholder === PRETTY_PLACEHOLDER) {
+        return formattedTitle.replace(PRETTY_PLACEHOLDER, pretty(normalisedValue));
+      }
+      return util.format(formattedTitle, normalisedValue);
+    }, initialTitle)
+    .replace(new RegExp(PLACEHOLDER_ESCAPE, 'g'), PLACEHOLDER_PREFIX);
+}
+
+/**
+ * Interpolates $variable (and $variable.path) references in a title
+ * @param title Title template
+ * @param data Object holding the values of the row
+ * @param rowIndex Index of the row in the table
+ * @returns Formatted title
+ */
+function interpolateVariables(title: string, data: Record<string, any>, rowIndex: number): string {
+  const keys = Object.keys(data)
+    .sort((a, b) => b.length - a.length)
+    .map(key => key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+
+  const interpolated = keys.length === 0 ? title : title.replace(
+    new RegExp(`\\$(${keys.join('|')})((?:\\.[\\w$]+)*)`, 'g'),
+    (match: string, key: string, keyPath: string) => {
+      let value = data[key];
+      for (const segment of keyPath.split('.').slice(1)) {
+        if (value === null || value === undefined) {
+          return match;
+        }
+        value = value[segment];
+      }
+      const isPrimitive = value === null || (typeof value !== 'object' && typeof value !== 'function');
+      return isPrimitive ? String(value) : pretty(value);
+    }
+  );
+
+  return interpolated.replace('$#', rowIndex.toString());
+}
+
+/**
+ * Builds the rows for an array table
+ * @param title Title template
+ * @param table Array table
+ * @returns Rows with formatted titles and arguments
+ */
+function arrayTableRows(title: string, table: any[]): EachRow[] {
+  const isTable = table.every(Array.isArray);
+  const hasPlaceholders = SUPPORTED_PLACEHOLDERS.test(title.replace(ESCAPED_PLACEHOLDER_PREFIX, PLACEHOLDER_ESCAPE));
+  // The regexp is global, so reset it after using test()
+  SUPPORTED_PLACEHOLDERS.lastIndex = 0;
+
+  // Array of objects, use $variable interpolation
+  if (!hasPlaceholders && !isTable && table.every(row => row !== null && typeof row === 'object')) {
+    return table.map((row, index) => ({
+      title: interpolateVariables(title, row, index).replace(ESCAPED_PLACEHOLDER_PREFIX, PLACEHOLDER_PREFIX),
+      args: [row],
+    }));
+  }
+
+  const rows = isTable ? table : table.map(value => [value]);
+  return rows.map((row, index) => ({
+    title: formatTitle(title, row, index),
+    args: row,
+  }));
+}
+
+/**
+ * Builds the rows for a tagged template table
+ * @param title Title template
+ * @param strings Template strings, the first one holds the headings
+ * @param values Interpolated values of the template
+ * @returns Rows with formatted titles and arguments
+ */
+function templateTableRows(title: string, strings: readonly string[], values: any[]): EachRow[] {
+  const headings = strings[0].replace(/\s/g, '').split('|').filter(heading => heading.length > 0);
+
+  if (headings.length === 0 || values.length % headings.length !== 0) {
+    const missing = headings.length === 0 ? values.length : headings.length - (values.length % headings.length);
+    throw new Error(
+      `Not enough arguments supplied for given headings:\n${headings.join(' | ')}\n\n` +
+      `Received:\n${pretty(values)}\n\n` +
+      `Missing ${missing} ${missing === 1 ? 'argument' : 'arguments'}`
+    );
+  }
+
+  const rows: EachRow[] = [];
+  for (let start = 0; start < values.length; start += headings.length) {
+    const data: Record<string, any> = {};
+    headings.forEach((heading, column) => {
+      data[heading] = values[start + column];
+    });
+    rows.push({ title: interpolateVariables(title, data, rows.length), args: [data] });
+  }
+  return rows;
+}
+
+/**
+ * Checks whether .each was invoked as a tagged template
+ * @param table First argument passed to .each
+ * @returns True if the argument is a template strings array
+ */
+function isTemplateStrings(table: any): table is TemplateStringsArray {
+  return Array.isArray(table) && Array.isArray((table as any).raw);
+}
+
+/**
+ * Validates the table passed to .each, throwing the same errors as Jest
+ * @param table Table passed to .each
+ */
+function validateTable(table: any) {
+  if (!Array.isArray(table)) {
+    throw new Error(
+      '`.each` must be called with an Array or Tagged Template Literal.\n\n' +
+      `Instead was called with: ${pretty(table)}\n`
+    );
+  }
+  if (isTemplateStrings(table)) {
+    if (table[0].trim() === '') {
+      throw new Error(
+        '`.each` must be called with an Array or Tagged Template Literal.\n\n' +
+        'Instead was called with an empty Tagged Template Literal\n'
+      );
+    }
+  } else if (table.length === 0) {
+    throw new Error('`.each` called with an empty Array of table data.\n');
+  }
+}
+
+/**
+ * Binds the arguments of a row to the test function
+ * @param fn Test or describe function taking the row arguments
+ * @param args Arguments of the row
+ * @returns Function taking only the done callback, if fn expects one after the row arguments
+ */
+function rowFunction(fn: Function, args: any[]): Function {
+  if (takesDoneCallback(fn, args.length)) {
+    return (done: Function) => fn(...args, done);
+  }
+  return () => fn(...args);
+}
+
+/**
+ * Creates the .each function for a test or describe function
+ * @param register Function used to register each row (test, test.only, describe.skip, ...)
+ * @returns Jest-compatible .each function
+ */
+export function createEachFunction(register: RegisterFunction) {
+  return (table: any, ...templateValues: any[]) => {
+    return (title: string, fn?: Function, timeout?: number) => {
+      let rows: EachRow[];
+      try {
+        validateTable(table);
+        rows = isTemplateStrings(table)
+          ? templateTableRows(title, table, templateValues)
+          : arrayTableRows(title, table);
+      } catch (error) {
+        // Like Jest, report a broken table as a failing test instead of crashing the file
+        register(title, () => {
+          throw error;
+        });
+        return;
+      }
+
+      rows.forEach(row => {
+        register(row.title, fn ? rowFunction(fn, row.args) : undefined, timeout);
+      });
+    };
+  };
+}
+
+/**
+ * Adds a .each method to a test or describe function
+ * @param fn Function to enhance
+ * @returns The same function with a .each method
+ */
+export function withEach<T extends RegisterFunction>(fn: T): T & { each: ReturnType<typeof createEachFunction> } {
+  return Object.assign(fn, { each: createEachFunction(fn) });
+}
@@ -6,7 +6,20 @@
  * in a single layer, without excessive decoration.
  */
 import { test as nodeTest, describe as nodeDescribe } from 'node:test';
-import { testContextRegistry, retryRegistry, filterRegistry } from './registry.js';
+import timers from 'node:timers';
+import { expect } from 'expect';
+import { testContextRegistry, retryRegistry, filterRegistry, declarationRegistry, configRegistry, mockRegistry } from './registry.js';
+import { createEachFunction, withEach } from './testEach.js';
+import { withDoneCallback } from './doneCallback.js';
+import { shuffle } from './seed.js';
+import { getCallerLocation } from './callSite.js';
+import { addConcurrentTest, endConcurrentGroup, registerBlock } from './concurrentTests.js';
+
+// Keep the real timers, so that fake timers installed by tests do not affect timeouts
+const { setTimeout: realSetTimeout, clearTimeout: realClearTimeout, setImmediate: realSetImmediate } = timers;
+
+// Longest delay of a timer, longer ones firing right away
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
 
 /**
  * Creates a test function with all Jest-compatible features in a single implementation
@@ -29,53 +42,133 @@ export function createTestFunction() {
     } 
     // Handle Node.js API: test(name, options?, fn?)
     else if (typeof fnOrOptions === 'object' && fnOrOptions !== null) {
-      options = fnOrOptions;
+      options = { ...fnOrOptions };
       // Only assign if it's a function
       if (typeof maybeTimeout === 'function') {
         fn = maybeTimeout as Function;
       }
     }
     
+    // Tests inside describe.concurrent are concurrent too, as in Jest
+    const { concurrent: concurrentOption, failing, ...nodeOptions } = options;
+    const concurrent = !!concurrentOption || declarationRegistry.isConcurrentScope();
+    
+    // Without an explicit timeout, use the default one set by jest.setTimeout or configuration
+    if (nodeOptions.timeout === undefined) {
+      nodeOptions.timeout = configRegistry.getConfig().testTimeout;
+    }
+    nodeOptions.timeout = timerTimeout(nodeOptions.timeout);
+    
+    // Callback style tests get a done callback, and complete when it is called
+    if (fn) {
+      fn = withDoneCallback(fn);
+    }
+    
+    // Check expect.assertions() and expect.hasAssertions() once the test is over
+    if (fn) {
+      fn = withAssertionChecks(fn);
+    }
+    
+    // Failing tests pass only when their body throws, timing out included, so
+    // their timeout is enforced here instead of by node:test
+    if (fn && failing) {
+      fn = expectFailure(fn, nodeOptions.timeout);
+      delete nodeOptions.timeout;
+    }
+    
+    // Remember the Jest-style full name of the test, joined from the describe path
+    const namePath = [...retryRegistry.getDescribePath(), name];
+    const testName = namePath.join(' ');
+    testContextRegistry.registerTestName(namePath.join(' > '), testName);
+    const testPath = declaringFile();
+    
     // Create a wrapper function that sets the current test context and handles retries
     const wrappedFn = fn ? (t: any, ...args: any[]) => {
-      // Set the current test context for snapshot testing
-      testContextRegistry.setCurrentTestContext(t);
-      
-      // Apply retry logic directly
-      const retryCount = retryRegistry.getCurrentRetryCount();
-      if (retryCount > 0) {
-        return handleRetries(t, fn!, retryCount, name, ...args);
-      }
+      startMockScope(t);
       
-      // Call the original test function
-      return fn!(t, ...args);
+      // Set the current test context for snapshot testing and expect.getState(), scoped
+      // to this test so that concurrent tests do not see each other's context
+      return testContextRegistry.runWithTestContext(testState(t, testName, testPath, concurrent), () => {
+        // Apply retry logic directly
+        const retryCount = retryRegistry.getCurrentRetryCount();
+        if (retryCount > 0) {
+          return handleRetries(t, fn!, retryCount, name, ...args);
+        }
+        
+        // Call the original test function
+        return fn!(t, ...args);
+      });
     } : undefined;
     
-    // Call the Node.js test function with the processed parameters
-    return nodeTest(name, options, wrappedFn);
+    // Register with the Node.js test function, once the enclosing describe block is built
+    randomizeTopLevelDeclarations();
+    declarationRegistry.declare(() => {
+      if (concurrent && wrappedFn && !nodeOptions.skip && !nodeOptions.todo) {
+        // The body may start before node:test reaches the test, so its timeout is enforced here
+        const { timeout = Infinity, ...concurrentOptions } = nodeOptions;
+        nodeTest(name, concurrentOptions, addConcurrentTest(name, testPath, withTestTimeout(wrappedFn, timeout)));
+      } else {
+        endConcurrentGroup();
+        nodeTest(name, nodeOptions, wrappedFn);
+      }
+    });
   };
   
-  // Add .only, .skip, .todo methods directly
-  testFunction.only = (name: string, fn?: Function, timeout?: number) => {
-    const options: any = { only: true };
-    if (typeof timeout === 'number') {
-      options.timeout = timeout;
+  // Add .only, .skip, .todo methods directly, .only and .skip also support .failing
+  testFunction.only = Object.assign(
+    withEach((name: string, fn?: Function, timeout?: number) => {
+      // Set the only mode flag
+      filterRegistry.setOnlyMode(true);
+      
+      return testFunction(name, withTimeout({ only: true }, timeout), fn);
+    }),
+    {
+      failing: withEach((name: string, fn?: Function, timeout?: number) => {
+        filterRegistry.setOnlyMode(true);
+        return testFunction(name, withTimeout({ only: true, failing: true }, timeout), fn);
+      })
     }
-    
-    // Set the only mode flag
-    filterRegistry.setOnlyMode(true);
-    
-    return testFunction(name, options, fn);
-  };
+  );
   
-  testFunction.skip = (name: string, fn?: Function) => {
-    return testFunction(name, { skip: true }, fn);
-  };
+  testFunction.skip = Object.assign(
+    withEach((name: string, fn?: Function) => {
+      return testFunction(name, { skip: true }, fn);
+    }),
+    {
+      failing: withEach((name: string, fn?: Function) => {
+        return testFunction(name, { skip: true, failing: true }, fn);
+      })
+    }
+  );
   
   testFunction.todo = (name: string) => {
     return testFunction(name, { todo: true });
   };
   
+  // Add .each for table-driven tests, each row becomes its own test
+  testFunction.each = createEachFunction(testFunction);
+  
+  // Add .failing, for tests that are expected to throw
+  testFunction.failing = withEach((name: string, fn?: Function, timeout?: number) => {
+    return testFunction(name, withTimeout({ failing: true }, timeout), fn);
+  });
+  
+  // Add .concurrent, run concurrently with the concurrent tests declared next to it
+  testFunction.concurrent = Object.assign(
+    withEach((name: string, fn?: Function, timeout?: number) => {
+      return testFunction(name, withTimeout({ concurrent: true }, timeout), fn);
+    }),
+    {
+      only: withEach((name: string, fn?: Function, timeout?: number) => {
+        filterRegistry.setOnlyMode(true);
+        return testFunction(name, withTimeout({ concurrent: true, only: true }, timeout), fn);
+      }),
+      skip: withEach((name: string, fn?: Function) => {
+        return testFunction(name, { concurrent: true, skip: true }, fn);
+      })
+    }
+  );
+  
   // Add retryTimes method directly
   testFunction.retryTimes = (count: number, options?: { logErrorsBeforeRetry?: boolean }) => {
     retryRegistry.setGlobalRetryCount(count);
@@ -101,41 +194,259 @@ export function createDescribeFunction() {
       options = fnOrOptions;
     }
     
-    // Create a wrapper function that handles describe block tracking for retries
-    const wrappedFn = fn ? () => {
+    const { concurrent: concurrentOption, ...nodeOptions } = options;
+    
+    // Run the describe block right away, collecting what it declares, so that the
+    // declarations can be shuffled before they are registered with node:test
+    let error: unknown;
+    const declarations = fn ? declarationRegistry.collectDeclarations(!!concurrentOption, () => {
       // Push this describe block onto the stack before running its tests
       retryRegistry.pushDescribeBlock(name);
       
-      // Run the describe block function
-      fn!();
-      
-      // Pop this describe block from the stack after running its tests
-      retryRegistry.popDescribeBlock();
+      try {
+        // Run the describe block function
+        fn!();
+      } catch (e) {
+        // Reported by node:test as a failure of the suite
+        error = e;
+      } finally {
+        // Pop this describe block from the stack after running its tests
+        retryRegistry.popDescribeBlock();
+      }
+    }) : undefined;
+    
+    // Replay the declarations inside the Node.js describe function
+    const replayFn = declarations ? () => {
+      const ordered = configRegistry.getConfig().randomize ? randomizeDeclarations(declarations) : declarations;
+      registerBlock(() => ordered.forEach(declaration => declaration.register()));
+      if (error) {
+        throw error;
+      }
     } : undefined;
     
-    // Call the Node.js describe function with the processed parameters
-    return nodeDescribe(name, options, wrappedFn);
+    randomizeTopLevelDeclarations();
+    declarationRegistry.declare(() => {
+      endConcurrentGroup();
+      nodeDescribe(name, nodeOptions, replayFn);
+    });
   };
   
   // Add .only, .skip, .todo methods directly
-  describeFunction.only = (name: string, fn: Function) => {
+  describeFunction.only = withEach((name: string, fn: Function) => {
     // Set the only mode flag
     filterRegistry.setOnlyMode(true);
     
     return describeFunction(name, { only: true }, fn);
-  };
+  });
   
-  describeFunction.skip = (name: string, fn: Function) => {
+  describeFunction.skip = withEach((name: string, fn: Function) => {
     return describeFunction(name, { skip: true }, fn);
-  };
+  });
   
   describeFunction.todo = (name: string, fn?: Function) => {
     return describeFunction(name, { todo: true }, fn);
   };
   
+  // Add .each for table-driven describe blocks, each row becomes its own suite
+  describeFunction.each = createEachFunction(describeFunction);
+  
+  // Add .concurrent, all the tests in the block run concurrently
+  describeFunction.concurrent = Object.assign(
+    withEach((name: string, fn: Function) => {
+      return describeFunction(name, { concurrent: true }, fn);
+    }),
+    {
+      only: withEach((name: string, fn: Function) => {
+        filterRegistry.setOnlyMode(true);
+        return describeFunction(name, { concurrent: true, only: true }, fn);
+      }),
+      skip: withEach((name: string, fn: Function) => {
+        return describeFunction(name, { concurrent: true, skip: true }, fn);
+      })
+    }
+  );
+  
   return describeFunction;
 }
 
+/**
+ * Helper function to add the optional Jest timeout argument to test options
+ */
+function withTimeout(options: any, timeout?: number) {
+  if (typeof timeout === 'number') {
+    options.timeout = timeout;
+  }
+  return options;
+}
+
+/**
+ * Helper function to find the test file declaring a test or a hook, from its call site
+ */
+function declaringFile() {
+  const testPath = getCallerLocation()?.file;
+  if (testPath) {
+    testContextRegistry.registerTestFile(testPath);
+  }
+  return testPath;
+}
+
+/**
+ * Helper function to build the state of a running test from its node:test context, Jest-style full name and test file,
+ * and whether it runs concurrently with other tests
+ */
+function testState(t: any, testName: string | undefined, testPath: string | undefined, concurrent = false) {
+  return {
+    context: t,
+    currentTestName: testName ?? t.name,
+    testPath: t.filePath ?? testPath,
+    concurrent
+  };
+}
+
+/**
+ * Helper function to run beforeEach and afterEach hooks with the state of their test
+ */
+function withTestState(fn: Function) {
+  const describePath = retryRegistry.getDescribePath();
+  const testPath = declaringFile();
+  return (t: any) => testContextRegistry.runWithTestContext(testState(t, testContextRegistry.findTestName(t, describePath), testPath), () => fn(t));
+}
+
+/**
+ * Helper function to start the mock scope of a test, when its first beforeEach hook or its
+ * body runs, applying the clearMocks, resetMocks and restoreMocks options like Jest does
+ */
+function startMockScope(t: any) {
+  if (!mockRegistry.startMockScope(t)) {
+    return;
+  }
+  const { clearMocks, resetMocks, restoreMocks } = configRegistry.getConfig();
+  if (clearMocks) {
+    mockRegistry.clearAllMocks();
+  }
+  if (resetMocks) {
+    mockRegistry.resetAllMocks();
+  }
+  if (restoreMocks) {
+    mockRegistry.restoreAllMocks();
+  }
+  // End the scope once the test is over, after its afterEach hooks
+  t.after(() => mockRegistry.endMockScope(t));
+}
+
+/**
+ * Helper function to run beforeEach hooks in the mock scope of their test
+ */
+function withMockScope(fn: Function) {
+  return (t: any) => {
+    startMockScope(t);
+    return fn(t);
+  };
+}
+
+/**
+ * Helper function to build the options of a hook, with the default timeout unless one is given
+ */
+function hookOptions(timeout?: number) {
+  return { timeout: timerTimeout(typeof timeout === 'number' ? timeout : configRegistry.getConfig().testTimeout) };
+}
+
+/**
+ * Helper function turning timeouts too long for a timer into no timeout, as timers fire them right away
+ */
+function timerTimeout(timeout: number) {
+  return timeout > MAX_TIMER_DELAY ? Infinity : timeout;
+}
+
+/**
+ * Helper function shuffling the tests and describe blocks declared in a describe block
+ *
+ * Hooks keep their place, so the shuffled declarations are only moved between the others' slots
+ */
+function randomizeDeclarations<T extends { hook: boolean }>(declarations: T[]): T[] {
+  const shuffled = shuffle(declarations.filter(declaration => !declaration.hook));
+  return declarations.map(declaration => declaration.hook ? declaration : shuffled.shift()!);
+}
+
+/**
+ * Helper function collecting the declarations made at the top level of a file when randomizing
+ *
+ * node:test starts the tests of a file once its code has run, so they are shuffled and
+ * registered right before, like the declarations of a describe block
+ */
+function randomizeTopLevelDeclarations() {
+  if (!configRegistry.getConfig().randomize || declarationRegistry.isCollecting()) {
+    return;
+  }
+  const endCollection = declarationRegistry.collectTopLevelDeclarations();
+  realSetImmediate(() => {
+    randomizeDeclarations(endCollection()).forEach(declaration => declaration.register());
+  });
+}
+
+/**
+ * Helper function for checking the number of assertions made by a test
+ *
+ * node's t.plan only counts t.assert calls, so the counters kept by expect itself are used
+ */
+function withAssertionChecks(fn: Function) {
+  return async (...args: any[]) => {
+    // Reset the counters, so that expectations of a previous test do not leak in
+    expect.setState({
+      assertionCalls: 0,
+      expectedAssertionsNumber: null,
+      isExpectingAssertions: false,
+      suppressedErrors: []
+    });
+    
+    await fn(...args);
+    
+    // Also resets the counters, so that nothing leaks out either
+    const errors = expect.extractExpectedAssertionsErrors();
+    if (errors.length > 0) {
+      throw errors[0].error;
+    }
+  };
+}
+
+/**
+ * Helper function for failing a test running longer than its timeout, when node:test cannot enforce it
+ */
+function withTestTimeout(fn: Function, timeout: number) {
+  return async (...args: any[]) => {
+    let timer: ReturnType<typeof realSetTimeout> | undefined;
+    try {
+      await Promise.race([
+        fn(...args),
+        // Without a timeout, wait for the test however long it takes
+        ...(timeout === Infinity ? [] : [new Promise((resolve, reject) => {
+          timer = realSetTimeout(() => {
+            reject(new Error(`Exceeded timeout of ${timeout} ms for a test.`));
+          }, timeout);
+        })])
+      ]);
+    } finally {
+      realClearTimeout(timer);
+    }
+  };
+}
+
+/**
+ * Helper function for inverting the result of a test marked with .failing
+ */
+function expectFailure(fn: Function, timeout: number) {
+  const runWithTimeout = withTestTimeout(fn, timeout);
+  return async (...args: any[]) => {
+    try {
+      await runWithTimeout(...args);
+    } catch (error) {
+      // The test failed as expected
+      return;
+    }
+    throw new Error('Failing test passed even though it was supposed to fail. Remove `.failing` to remove error.');
+  };
+}
+
 /**
  * Helper function for handling retries
  */
@@ -179,21 +490,28 @@ export function createTestFunctions() {
   // Create aliases
   const it = test;
   
-  // Create lifecycle hooks
-  const beforeEach = (fn: any) => {
-    nodeTest.beforeEach(fn);
+  // Create lifecycle hooks, registered in order with the tests of their describe block,
+  // callback style hooks get a done callback like tests do
+  const beforeEach = (fn: any, timeout?: number) => {
+    const options = hookOptions(timeout);
+    const hook = withMockScope(withTestState(withDoneCallback(fn)));
+    declarationRegistry.declareHook(() => nodeTest.beforeEach(hook, options));
   };
   
-  const afterEach = (fn: any) => {
-    nodeTest.afterEach(fn);
+  const afterEach = (fn: any, timeout?: number) => {
+    const options = hookOptions(timeout);
+    const hook = withTestState(withDoneCallback(fn));
+    declarationRegistry.declareHook(() => nodeTest.afterEach(hook, options));
   };
   
-  const beforeAll = (fn: any) => {
-    nodeTest.before(fn);
+  const beforeAll = (fn: any, timeout?: number) => {
+    const options = hookOptions(timeout);
+    declarationRegistry.declareHook(() => nodeTest.before(withDoneCallback(fn) as any, options));
   };
   
-  const afterAll = (fn: any) => {
-    nodeTest.after(fn);
+  const afterAll = (fn: any, timeout?: number) => {
+    const options = hookOptions(timeout);
+    declarationRegistry.declareHook(() => nodeTest.after(withDoneCallback(fn) as any, options));
   };
   
   return {
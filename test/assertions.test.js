@@ -0,0 +1,59 @@
+// This test verifies that expect.assertions() and expect.hasAssertions() are enforced
+// The adapter is imported via the --import flag in the test command
+
+describe('expect.assertions', () => {
+  test('passes when the expected number of assertions is made', async () => {
+    expect.assertions(2);
+    const value = await Promise.resolve(1);
+    expect(value).toBe(1);
+    expect(value).toBeGreaterThan(0);
+  });
+
+  test.failing('fails when fewer assertions are made', () => {
+    expect.assertions(2);
+    expect(true).toBe(true);
+  });
+
+  test.failing('fails when an async callback never runs', async () => {
+    expect.assertions(1);
+    await Promise.resolve().then(() => {
+      if (false) {
+        expect(true).toBe(true);
+      }
+    });
+  });
+
+  test('does not leak the expected count into the next test', () => {
+    // The previous test expected one assertion, this one makes none
+  });
+});
+
+describe('expect.hasAssertions', () => {
+  test('passes when at least one assertion is made', () => {
+    expect.hasAssertions();
+    expect(1).toBe(1);
+  });
+
+  test.failing('fails when no assertion is made', () => {
+    expect.hasAssertions();
+  });
+});
+
+describe('expect.assertions in concurrent tests', () => {
+  const delay = ms => new Promise(resolve => setTimeout(resolve, ms));
+
+  test.concurrent('counts the assertions of the slow test only', async () => {
+    expect.assertions(2);
+    expect(1).toBe(1);
+    // The fast test makes its assertions and ends meanwhile
+    await delay(50);
+    const { assertionCalls, expectedAssertionsNumber } = expect.getState();
+    expect({ assertionCalls, expectedAssertionsNumber }).toEqual({ assertionCalls: 1, expectedAssertionsNumber: 2 });
+  });
+
+  test.concurrent('counts the assertions of the fast test only', async () => {
+    expect.assertions(1);
+    await delay(10);
+    expect(1).toBe(1);
+  });
+});
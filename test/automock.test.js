@@ -0,0 +1,171 @@
+// This test verifies automatic module mocks
+// The adapter is imported via the --import flag in the test command
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { expectSummary, hasModuleHooks, runTestProject, testWithModuleHooks } from './testProject.js';
+
+const serviceSource = `
+export function greet(name) { return 'Hello ' + name; }
+export class Store {
+  get(key) { return key; }
+}
+export const settings = { retries: 3, load() { return 'loaded'; } };
+export const VERSION = '1.0.0';
+export default { run() { return 'ran'; } };
+`;
+
+const legacySource = `
+module.exports = {
+  add: (a, b) => a + b,
+  name: 'legacy'
+};
+`;
+
+const fixtures = { 'service.mjs': serviceSource, 'legacy.cjs': legacySource };
+
+// Writes the fixture modules into a temporary directory
+function createFixtures() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'automock-'));
+  fs.writeFileSync(path.join(dir, 'service.mjs'), serviceSource);
+  fs.writeFileSync(path.join(dir, 'legacy.cjs'), legacySource);
+  return dir;
+}
+
+describe('jest.createMockFromModule', () => {
+  let dir;
+
+  beforeAll(() => {
+    dir = createFixtures();
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('mocks the functions and classes of an ES module', () => {
+    const service = jest.createMockFromModule(path.join(dir, 'service.mjs'));
+
+    expect(jest.isMockFunction(service.greet)).toBe(true);
+    expect(service.greet('World')).toBeUndefined();
+    expect(service.greet).toHaveBeenCalledWith('World');
+
+    const store = new service.Store();
+    expect(jest.isMockFunction(store.get)).toBe(true);
+    expect(store.get('key')).toBeUndefined();
+    expect(service.Store).toHaveBeenCalledTimes(1);
+  });
+
+  test('mocks objects recursively and keeps primitives', () => {
+    const service = jest.createMockFromModule(path.join(dir, 'service.mjs'));
+
+    expect(service.settings.retries).toBe(3);
+    expect(jest.isMockFunction(service.settings.load)).toBe(true);
+    expect(service.VERSION).toBe('1.0.0');
+    expect(jest.isMockFunction(service.default.run)).toBe(true);
+  });
+
+  test('mocks CommonJS modules', () => {
+    const legacy = jest.createMockFromModule(path.join(dir, 'legacy.cjs'));
+
+    expect(jest.isMockFunction(legacy.add)).toBe(true);
+    expect(legacy.add(1, 2)).toBeUndefined();
+    expect(legacy.name).toBe('legacy');
+  });
+
+  test('generates mocks cleared by jest.clearAllMocks', () => {
+    const legacy = jest.createMockFromModule(path.join(dir, 'legacy.cjs'));
+    legacy.add(1, 2);
+
+    jest.clearAllMocks();
+    expect(legacy.add).not.toHaveBeenCalled();
+  });
+});
+
+describe('jest.mock without a factory', () => {
+  test('replaces the module with its automatic mock', () => {
+    const result = runTestProject(`
+jest.mock('./service.mjs');
+jest.mock('./legacy.cjs');
+const { greet, VERSION } = await import('./service.mjs');
+const legacy = (await import('./legacy.cjs')).default;
+
+test('automock', () => {
+  expect(greet('World')).toBeUndefined();
+  expect(greet).toHaveBeenCalledWith('World');
+  expect(VERSION).toBe('1.0.0');
+  legacy.add.mockReturnValue(5);
+  expect(legacy.add(1, 2)).toBe(5);
+});
+`, { fixtures });
+
+    expectSummary(result, { pass: 1 });
+  });
+
+  testWithModuleHooks('mocks virtual modules with their root manual mock or an empty module', () => {
+    const result = runTestProject({
+      '__mocks__/virtual-settings.js': "module.exports = { name: 'manual' };\n",
+      'example.test.mjs': `
+import config from 'virtual-config';
+import settings from 'virtual-settings';
+jest.mock('virtual-config', undefined, { virtual: true });
+jest.mock('virtual-settings', undefined, { virtual: true });
+
+test('virtual mocks', () => {
+  expect(config).toEqual({});
+  expect(settings).toEqual({ name: 'manual' });
+  expect(jest.requireMock('virtual-settings')).toBe(settings);
+});
+`
+    });
+
+    expectSummary(result, { pass: 1 });
+  });
+});
+
+describe('jest.enableAutomock', () => {
+  testWithModuleHooks('mocks the user modules imported afterwards', () => {
+    const result = runTestProject(`
+jest.enableAutomock();
+jest.unmock('./legacy.cjs');
+const { greet } = await import('./service.mjs');
+const legacy = (await import('./legacy.cjs')).default;
+jest.disableAutomock();
+const path = await import('node:path');
+
+test('automock', () => {
+  expect(jest.isMockFunction(greet)).toBe(true);
+  expect(legacy.add(1, 2)).toBe(3);
+  expect(path.join('a', 'b')).toBe('a/b');
+});
+`, { fixtures });
+
+    expectSummary(result, { pass: 1 });
+  });
+
+  testWithModuleHooks('is enabled with the automock option', () => {
+    const result = runTestProject(`
+import { greet } from './service.mjs';
+import legacy from './legacy.cjs';
+
+test('automock', () => {
+  expect(jest.isMockFunction(greet)).toBe(true);
+  expect(jest.isMockFunction(legacy.add)).toBe(true);
+});
+`, { fixtures, env: { JEST_COMPAT_AUTOMOCK: 'true' } });
+
+    expectSummary(result, { pass: 1 });
+  });
+
+  (hasModuleHooks ? test.skip : test)('warns once without module hooks', () => {
+    const result = runTestProject(`
+jest.enableAutomock();
+jest.enableAutomock();
+
+test('automock', () => {});
+`, { fixtures });
+
+    expect(result.stdout.match(/jest\.enableAutomock\(\) is only partially supported/g)).toHaveLength(1);
+    expectSummary(result, { pass: 1 });
+  });
+});
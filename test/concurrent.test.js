@@ -0,0 +1,185 @@
+// This test verifies test.concurrent and describe.concurrent
+// The adapter is imported via the --import flag in the test command
+import { configure } from '../dist/esm/index.js';
+import { expectSummary, runTestProject } from './testProject.js';
+
+const delay = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+configure({ maxConcurrency: 2 });
+
+describe('test.concurrent', () => {
+  let running = 0;
+  let maxRunning = 0;
+
+  const track = async (ms) => {
+    running++;
+    maxRunning = Math.max(maxRunning, running);
+    await delay(ms);
+    running--;
+  };
+
+  test.concurrent('first concurrent test', async () => {
+    await track(50);
+  });
+
+  test.concurrent('second concurrent test', async () => {
+    await track(50);
+  });
+
+  test.concurrent.each([[30], [10]])('concurrent row waiting %ims', async (ms) => {
+    await track(ms);
+  });
+
+  test.concurrent.skip('skipped concurrent test', async () => {
+    throw new Error('skipped tests should not run');
+  });
+
+  afterAll(() => {
+    // Tests overlapped, but never more than maxConcurrency at a time
+    expect(maxRunning).toBe(2);
+  });
+});
+
+describe.concurrent('describe.concurrent', () => {
+  const order = [];
+
+  test('slow test', async () => {
+    await delay(40);
+    order.push('slow');
+  });
+
+  test('fast test', async () => {
+    await delay(5);
+    order.push('fast');
+  });
+
+  afterAll(() => {
+    expect(order).toEqual(['fast', 'slow']);
+  });
+});
+
+describe('test.concurrent next to other tests', () => {
+  const events = [];
+
+  const record = async (name, ms) => {
+    events.push(`start ${name}`);
+    await delay(ms);
+    events.push(`end ${name}`);
+  };
+
+  test('first sequential test', () => record('first', 20));
+  test.concurrent('slow concurrent test', () => record('slow', 30));
+  test.concurrent('fast concurrent test', () => record('fast', 5));
+  test('second sequential test', () => record('second', 20));
+  test('third sequential test', () => record('third', 5));
+
+  afterAll(() => {
+    // Only the concurrent tests overlap, the others run alone
+    expect(events).toEqual([
+      'start first', 'end first',
+      'start slow', 'start fast', 'end fast', 'end slow',
+      'start second', 'end second',
+      'start third', 'end third'
+    ]);
+  });
+});
+
+describe('test.concurrent at the top level of a file', () => {
+  test('runs along the concurrent tests next to it', () => {
+    const result = runTestProject({
+      'example.test.mjs': `
+const delay = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+const events = [];
+
+const record = async (name, ms) => {
+  events.push('start ' + name);
+  await delay(ms);
+  events.push('end ' + name);
+};
+
+test.concurrent('slow', () => record('slow', 30));
+test.concurrent('fast', () => record('fast', 5));
+test('sequential', () => record('sequential', 5));
+
+test('checks the order', () => {
+  expect(events).toEqual(['start slow', 'start fast', 'end fast', 'end slow', 'start sequential', 'end sequential']);
+});
+`
+    });
+
+    expectSummary(result, { pass: 4 });
+  });
+
+  test('fails when running longer than its timeout', () => {
+    const result = runTestProject({
+      'example.test.mjs': `
+test.concurrent('slow', () => new Promise((resolve) => setTimeout(resolve, 200)), 20);
+test.concurrent('fast', () => {});
+`
+    });
+
+    expect(result.stdout).toContain('Exceeded timeout of 20 ms for a test.');
+    expectSummary(result, { pass: 1, fail: 1 });
+  });
+});
+
+describe('sequential tests', () => {
+  const order = [];
+
+  test('slow test', async () => {
+    await delay(40);
+    order.push('slow');
+  });
+
+  test('fast test', async () => {
+    await delay(5);
+    order.push('fast');
+  });
+
+  test('run in declaration order', () => {
+    expect(order).toEqual(['slow', 'fast']);
+  });
+});
+
+describe('snapshots in concurrent tests', () => {
+  test('are stored under the name of the test taking them', () => {
+    const result = runTestProject({
+      'example.test.mjs': `
+const delay = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('snapshots', () => {
+  test.concurrent('resolves after a long wait', async () => {
+    await delay(30);
+    expect({ test: 'long' }).toMatchSnapshot();
+  });
+
+  test.concurrent('resolves after a short wait', async () => {
+    expect({ test: 'short' }).toMatchSnapshot();
+    await delay(5);
+    expect('short again').toMatchSnapshot();
+  });
+});
+`
+    });
+
+    expectSummary(result, { pass: 2 });
+    expect(result.files['__snapshots__/example.test.mjs.snap']).toBe([
+      '// Jest Snapshot v1, https://goo.gl/fbAQLP',
+      '',
+      'exports[`snapshots resolves after a long wait 1`] = `',
+      '{',
+      '  "test": "long",',
+      '}',
+      '`;',
+      '',
+      'exports[`snapshots resolves after a short wait 1`] = `',
+      '{',
+      '  "test": "short",',
+      '}',
+      '`;',
+      '',
+      'exports[`snapshots resolves after a short wait 2`] = `"short again"`;',
+      ''
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,119 @@
+// This test verifies Jest's done callback style for tests and hooks
+// The adapter is imported via the --import flag in the test command
+import { expectSummary, runTestProject } from './testProject.js';
+
+describe('done callback', () => {
+  let setupDone = false;
+
+  beforeEach((done) => {
+    setTimeout(() => {
+      setupDone = true;
+      done();
+    }, 10);
+  });
+
+  afterEach((done) => {
+    setupDone = false;
+    done();
+  });
+
+  test('waits for done to be called', (done) => {
+    expect(setupDone).toBe(true);
+    setTimeout(() => {
+      expect(setupDone).toBe(true);
+      done();
+    }, 10);
+  });
+
+  test.each([[1, 2], [2, 4]])('gets done after the row arguments (%i)', (value, expected, done) => {
+    setTimeout(() => {
+      expect(value * 2).toBe(expected);
+      done();
+    }, 5);
+  });
+
+  test.failing('fails when done is called with an error', (done) => {
+    setTimeout(() => done(new Error('failed in callback')), 5);
+  });
+
+  test.failing('fails when done.fail is called', (done) => {
+    setTimeout(() => done.fail('failed in callback'), 5);
+  });
+
+  test.failing('rejects a test taking done and returning a promise', async (done) => {
+    done();
+  });
+
+  test('reports a second call to done as a failure', () => {
+    const result = runTestProject({
+      'example.test.mjs': `
+test('calls done twice synchronously', (done) => {
+  done();
+  done();
+});
+
+test('calls done twice', (done) => {
+  done();
+  setTimeout(() => done(), 5);
+});
+
+test('runs afterwards', () => new Promise((resolve) => setTimeout(resolve, 20)));
+`
+    });
+
+    expect(result.stdout).toContain('Expected done to be called once, but it was called multiple times.');
+    expect(result.stdout).toContain('not ok 1 - calls done twice synchronously');
+    expect(result.stdout).toContain('ok 3 - runs afterwards');
+    expect(result.status).toBe(1);
+  });
+});
+
+describe('done callback with another name', () => {
+  let setupDone = false;
+
+  beforeEach((next) => {
+    setTimeout(() => {
+      setupDone = true;
+      next();
+    }, 10);
+  });
+
+  test('waits for the callback, whatever its name', (t) => {
+    expect(setupDone).toBe(true);
+    expect(typeof t.fail).toBe('function');
+    setTimeout(t, 10);
+  });
+
+  test.each([[1, 2]])('gets the callback after the row arguments (%i)', (value, expected, cb) => {
+    expect(value * 2).toBe(expected);
+    cb();
+  });
+
+  test.failing('rejects async tests taking a parameter', async (context) => {
+    expect(context).toBeUndefined();
+  });
+});
+
+describe('tests and hooks written for node:test', () => {
+  let hookContext;
+
+  beforeEach((t, done) => {
+    hookContext = t;
+    done();
+  });
+
+  test('get the test context before the done callback', (t, done) => {
+    expect(typeof t.diagnostic).toBe('function');
+    expect(hookContext.name).toBe(t.name);
+    setTimeout(done, 10);
+  });
+
+  test.failing('fail when done is called with an error', (t, done) => {
+    setTimeout(() => done(new Error(`${t.name} failed in callback`)), 5);
+  });
+
+  test.failing('cannot take a done callback when async', async (t, done) => {
+    await Promise.resolve();
+    done();
+  });
+});
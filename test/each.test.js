@@ -0,0 +1,75 @@
+// This test verifies the .each functionality for test, it and describe
+// The adapter is imported via the --import flag in the test command
+
+describe('test.each with arrays', () => {
+  const titles = [];
+
+  test.each([
+    [1, 1, 2],
+    [1, 2, 3],
+    [2, 1, 3],
+  ])('add(%i, %i) -> %i', (a, b, expected) => {
+    expect(a + b).toBe(expected);
+  });
+
+  it.each([1, 2, 3])('receives single values as the only argument (%d)', (value) => {
+    expect(typeof value).toBe('number');
+  });
+
+  test.each([
+    { a: 1, b: 1, expected: 2 },
+    { a: 2, b: 2, expected: 4 },
+  ])('$a + $b = $expected', ({ a, b, expected }) => {
+    expect(a + b).toBe(expected);
+  });
+
+  test.each([['first'], ['second']])('row %# is %s', (value) => {
+    titles.push(value);
+  });
+
+  test('every row was run', () => {
+    expect(titles).toEqual(['first', 'second']);
+  });
+});
+
+describe('test.each with tagged templates', () => {
+  test.each`
+    a    | b    | expected
+    ${1} | ${1} | ${2}
+    ${2} | ${3} | ${5}
+  `('returns $expected when $a is added to $b', ({ a, b, expected }) => {
+    expect(a + b).toBe(expected);
+  });
+
+  test.each`
+    input             | length
+    ${{ list: [1] }}  | ${1}
+    ${{ list: [] }}   | ${0}
+  `('reads nested paths like $input.list', ({ input, length }) => {
+    expect(input.list).toHaveLength(length);
+  });
+});
+
+describe.each([
+  [1, 2],
+  [3, 4],
+])('describe.each(%i, %i)', (a, b) => {
+  test('receives the row arguments', () => {
+    expect(b - a).toBe(1);
+  });
+});
+
+describe('pretty formatted titles', () => {
+  test.each([
+    [{ id: 1 }, [1, 2]],
+    [null, 'text'],
+  ])('formats %p and %p', (first, second) => {
+    expect(second).toBeDefined();
+  });
+});
+
+describe('chained .each', () => {
+  test.skip.each([[1], [2]])('skipped row %i', () => {
+    throw new Error('skipped rows should not run');
+  });
+});
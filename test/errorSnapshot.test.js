@@ -0,0 +1,63 @@
+// This test verifies toThrowErrorMatchingSnapshot and toThrowErrorMatchingInlineSnapshot
+// The adapter is imported via the --import flag in the test command
+import { expectSummary, runTestProject } from './testProject.js';
+
+const fail = () => {
+  throw new Error('Something went wrong');
+};
+
+describe('error snapshots', () => {
+  test('match the message of errors thrown by functions and rejected promises', () => {
+    // Run without --test-update-snapshots, so mismatching inline snapshots fail
+    const source = [
+      "const fail = () => { throw new Error('Something went wrong'); };",
+      "test('thrown', () => { expect(fail).toThrowErrorMatchingInlineSnapshot(`\"Something went wrong\"`); });",
+      "test('rejected', async () => {",
+      "  await expect(Promise.reject(new TypeError('Rejected'))).rejects.toThrowErrorMatchingInlineSnapshot(`\"Rejected\"`);",
+      '});',
+      "test('mismatching', () => { expect(fail).toThrowErrorMatchingInlineSnapshot(`\"Something else\"`); });",
+      ''
+    ].join('\n');
+    const result = runTestProject(source);
+
+    expectSummary(result, { pass: 2, fail: 1 });
+    expect(result.files['example.test.mjs']).toBe(source);
+  });
+
+  test('fail when the function does not throw', () => {
+    expect(() => expect(() => {}).toThrowErrorMatchingInlineSnapshot(`"never"`)).toThrow('Received function did not throw');
+  });
+
+  test('require a function without .rejects', () => {
+    expect(() => expect(new Error('not thrown')).toThrowErrorMatchingSnapshot()).toThrow('Received value must be a function');
+  });
+
+  test('cannot be used with .not', () => {
+    expect(() => expect(fail).not.toThrowErrorMatchingSnapshot()).toThrow('toThrowErrorMatchingSnapshot cannot be used with .not');
+  });
+
+  test('write messages with hints to the snapshot file and inline', () => {
+    const result = runTestProject([
+      "test('errors', async () => {",
+      "  expect(() => { throw new Error('sync'); }).toThrowErrorMatchingSnapshot('first');",
+      "  expect(() => { throw new Error('sync'); }).toThrowErrorMatchingSnapshot('first');",
+      "  await expect(Promise.reject(new Error('async'))).rejects.toThrowErrorMatchingSnapshot();",
+      "  await expect(Promise.reject(new Error('async'))).rejects.toThrowErrorMatchingInlineSnapshot();",
+      '});',
+      ''
+    ].join('\n'));
+
+    expectSummary(result, { pass: 1 });
+    expect(result.files['__snapshots__/example.test.mjs.snap']).toBe([
+      '// Jest Snapshot v1, https://goo.gl/fbAQLP',
+      '',
+      'exports[`errors 1`] = `"async"`;',
+      '',
+      'exports[`errors: first 1`] = `"sync"`;',
+      '',
+      'exports[`errors: first 2`] = `"sync"`;',
+      ''
+    ].join('\n'));
+    expect(result.files['example.test.mjs']).toContain('rejects.toThrowErrorMatchingInlineSnapshot(`"async"`);');
+  });
+});
@@ -0,0 +1,68 @@
+// This test verifies the Jest-compatible state returned by expect.getState()
+// The adapter is imported via the --import flag in the test command
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const delay = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('expect.getState', () => {
+  let nameInHook;
+
+  beforeEach(() => {
+    nameInHook = expect.getState().currentTestName;
+  });
+
+  test('has the full name of the test', () => {
+    expect(expect.getState().currentTestName).toBe('expect.getState has the full name of the test');
+  });
+
+  test('is also set in beforeEach hooks', () => {
+    expect(nameInHook).toBe('expect.getState is also set in beforeEach hooks');
+  });
+
+  test('has the absolute path of the test file', () => {
+    expect(expect.getState().testPath).toBe(fileURLToPath(import.meta.url));
+    expect(path.isAbsolute(expect.getState().testPath)).toBe(true);
+  });
+
+  test('has the snapshot state of the test file', () => {
+    expect(expect.getState().snapshotState).toBeDefined();
+  });
+
+  describe('in nested describe blocks', () => {
+    test('joins all the describe names', () => {
+      expect(expect.getState().currentTestName).toBe('expect.getState in nested describe blocks joins all the describe names');
+    });
+  });
+
+  describe('in blocks with tests of the same name', () => {
+    describe('first', () => {
+      test('same name', () => {
+        expect(nameInHook).toBe('expect.getState in blocks with tests of the same name first same name');
+      });
+    });
+
+    describe('second', () => {
+      test('same name', () => {
+        expect(nameInHook).toBe('expect.getState in blocks with tests of the same name second same name');
+        expect(expect.getState().currentTestName).toBe(nameInHook);
+      });
+    });
+  });
+
+  describe.concurrent('in concurrent tests', () => {
+    test('keeps the name of the slow test', async () => {
+      await delay(20);
+      expect(expect.getState().currentTestName).toBe('expect.getState in concurrent tests keeps the name of the slow test');
+    });
+
+    test('keeps the name of the fast test', async () => {
+      await delay(5);
+      expect(expect.getState().currentTestName).toBe('expect.getState in concurrent tests keeps the name of the fast test');
+    });
+  });
+});
+
+afterAll(() => {
+  expect(expect.getState().currentTestName).toBeUndefined();
+});
@@ -1,5 +1,6 @@
 // This test verifies the extended Jest API functionality
 // The adapter is imported via the --import flag in the test command
+import { hasModuleHooks } from './testProject.js';
 
 describe('Extended Jest API', () => {
   let mockFn;
@@ -39,7 +40,7 @@ describe('Extended Jest API', () => {
     expect(mockObj.method()).toBe('original');
   });
   
-  test('jest.resetModules should exist and show a warning', () => {
+  test('jest.resetModules should be chainable, warning only without module hooks', () => {
     // Temporarily redirect console.warn
     const originalWarn = console.warn;
     const warnings = [];
@@ -47,14 +48,16 @@ describe('Extended Jest API', () => {
       warnings.push(message);
     };
     
-    jest.resetModules();
+    expect(jest.resetModules()).toBe(jest);
     
     // Restore console.warn
     console.warn = originalWarn;
     
-    // Verify a warning was shown
-    expect(warnings.length).toBeGreaterThan(0);
-    expect(warnings[0]).toContain('resetModules');
+    if (hasModuleHooks) {
+      expect(warnings).toEqual([]);
+    } else {
+      expect(warnings).toEqual([expect.stringContaining('jest.resetModules() is only partially supported')]);
+    }
   });
   
   test('jest.requireActual and jest.requireMock should be defined', () => {
@@ -62,21 +65,7 @@ describe('Extended Jest API', () => {
     expect(typeof jest.requireMock).toBe('function');
   });
   
-  test('jest.setTimeout should exist and show a warning', () => {
-    // Temporarily redirect console.warn
-    const originalWarn = console.warn;
-    const warnings = [];
-    console.warn = (message) => {
-      warnings.push(message);
-    };
-    
-    jest.setTimeout(5000);
-    
-    // Restore console.warn
-    console.warn = originalWarn;
-    
-    // Verify a warning was shown
-    expect(warnings.length).toBeGreaterThan(0);
-    expect(warnings[0]).toContain('setTimeout');
+  test('jest.setTimeout should be chainable', () => {
+    expect(jest.setTimeout(5000)).toBe(jest);
   });
 });
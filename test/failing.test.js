@@ -0,0 +1,70 @@
+// This test verifies test.failing and its .only, .skip and .each variants
+// The adapter is imported via the --import flag in the test command
+import { expectSummary, runTestProject } from './testProject.js';
+
+describe('test.failing', () => {
+  test.failing('passes when the test throws', () => {
+    expect(1 + 1).toBe(3);
+  });
+
+  test.failing('passes when the test rejects', async () => {
+    await Promise.resolve();
+    throw new Error('known bug');
+  });
+
+  it.failing('is also available on it', () => {
+    throw new Error('known bug');
+  });
+
+  test.failing.each([
+    [1, 2],
+    [2, 3],
+  ])('passes when row %i != %i fails', (a, b) => {
+    expect(a).toBe(b);
+  });
+
+  test.skip.failing('skipped failing tests do not run', () => {
+    throw new Error('skipped tests should not run');
+  });
+
+  test.skip.failing.each([[1]])('skipped failing row %i does not run', () => {
+    throw new Error('skipped tests should not run');
+  });
+
+  test('fail when the test unexpectedly passes', () => {
+    const result = runTestProject({
+      'example.test.mjs': `
+test.failing('passes unexpectedly', () => {
+  expect(1 + 1).toBe(2);
+});
+
+test.failing('resolves unexpectedly', async () => {
+  await Promise.resolve();
+});
+`
+    });
+
+    expectSummary(result, { pass: 0, fail: 2 });
+    expect(result.stdout).toContain('Failing test passed even though it was supposed to fail. Remove `.failing` to remove error.');
+  });
+
+  test('run only the tests marked with .only.failing, inverting their result', () => {
+    const result = runTestProject(`
+test('is not run', () => {
+  throw new Error('tests without .only should not run');
+});
+
+test.only.failing('throws', () => {
+  expect(1 + 1).toBe(3);
+});
+
+it.only.failing('passes unexpectedly', () => {
+  expect(1 + 1).toBe(2);
+});
+`, { args: ['--test-only'] });
+
+    expectSummary(result, { pass: 1, fail: 1 });
+    expect(result.stdout).not.toContain('tests without .only should not run');
+    expect(result.stdout).toContain('Failing test passed even though it was supposed to fail. Remove `.failing` to remove error.');
+  });
+});
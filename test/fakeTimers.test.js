@@ -1,5 +1,7 @@
 // This test verifies the fake timers functionality
 // The adapter is imported via the --import flag in the test command
+import { setTimeout as delay } from 'node:timers/promises';
+import { expectSummary, runTestProject } from './testProject.js';
 
 describe('Fake Timers', () => {
   beforeEach(() => {
@@ -139,3 +141,296 @@ describe('Fake Timers', () => {
     expect(callback).toHaveBeenCalledTimes(1);
   });
 });
+
+describe('Fake clock', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('jest.getTimerCount should count the pending timers', () => {
+    jest.useFakeTimers();
+    setTimeout(() => {}, 100);
+    const interval = setInterval(() => {}, 50);
+    setImmediate(() => {});
+    expect(jest.getTimerCount()).toBe(3);
+
+    clearInterval(interval);
+    jest.advanceTimersByTime(0);
+    expect(jest.getTimerCount()).toBe(1);
+  });
+
+  test('jest.advanceTimersToNextTimer should jump to the next timer', () => {
+    jest.useFakeTimers({ now: 0 });
+    const calls = [];
+    setTimeout(() => calls.push('first'), 1000);
+    setTimeout(() => calls.push('same time'), 1000);
+    setTimeout(() => calls.push('second'), 5000);
+
+    jest.advanceTimersToNextTimer();
+    expect(calls).toEqual(['first', 'same time']);
+    expect(Date.now()).toBe(1000);
+
+    jest.advanceTimersToNextTimer();
+    expect(calls).toEqual(['first', 'same time', 'second']);
+    expect(Date.now()).toBe(5000);
+  });
+
+  test('jest.clearAllTimers should keep the time and the real APIs', () => {
+    jest.useFakeTimers({ now: 1000, doNotFake: ['setImmediate'] });
+    setTimeout(() => {}, 100);
+    jest.clearAllTimers();
+
+    expect(jest.getTimerCount()).toBe(0);
+    expect(Date.now()).toBe(1000);
+    expect(jest.isMockFunction(setImmediate)).toBe(false);
+    expect(setImmediate(() => {})).toHaveProperty('_onImmediate');
+  });
+
+  test('jest.getRealSystemTime should return the real time', () => {
+    jest.useFakeTimers({ now: new Date(2000, 0, 1) });
+    expect(new Date().getFullYear()).toBe(2000);
+    expect(jest.now()).toBe(new Date(2000, 0, 1).getTime());
+    expect(jest.getRealSystemTime()).toBeGreaterThan(new Date(2020, 0, 1).getTime());
+  });
+
+  test('jest.setSystemTime should keep the pending timers at the same distance', () => {
+    jest.useFakeTimers({ now: 0 });
+    const callback = jest.fn();
+    setTimeout(callback, 100);
+
+    jest.setSystemTime(10000);
+    jest.advanceTimersByTime(99);
+    expect(callback).not.toHaveBeenCalled();
+    jest.advanceTimersByTime(1);
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+
+  test('process.nextTick and queueMicrotask should run with the timers or jest.runAllTicks', () => {
+    jest.useFakeTimers();
+    const calls = [];
+    process.nextTick(value => calls.push(value), 'tick');
+    queueMicrotask(() => calls.push('microtask'));
+    expect(jest.getTimerCount()).toBe(2);
+
+    jest.runAllTicks();
+    expect(calls).toEqual(['tick', 'microtask']);
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  test('performance.now and process.hrtime should advance with the clock', () => {
+    jest.useFakeTimers();
+    const start = performance.now();
+    const hrStart = process.hrtime();
+    const bigintStart = process.hrtime.bigint();
+
+    jest.advanceTimersByTime(1500);
+    expect(performance.now() - start).toBe(1500);
+    expect(process.hrtime(hrStart)).toEqual([1, 500000000]);
+    expect(process.hrtime.bigint() - bigintStart).toBe(1500000000n);
+  });
+
+  test('requestAnimationFrame should run on the next frame', () => {
+    jest.useFakeTimers();
+    const callback = jest.fn();
+    requestAnimationFrame(callback);
+    const cancelled = requestAnimationFrame(() => {});
+    cancelAnimationFrame(cancelled);
+
+    jest.advanceTimersToNextFrame();
+    expect(callback).toHaveBeenCalledWith(performance.now());
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  test('setImmediate should run before the timers due at the same time', () => {
+    jest.useFakeTimers();
+    const calls = [];
+    setTimeout(() => calls.push('timeout'), 0);
+    setImmediate(() => calls.push('immediate'));
+
+    jest.runAllTimers();
+    expect(calls).toEqual(['immediate', 'timeout']);
+  });
+
+  test('doNotFake should keep the real APIs', () => {
+    const realNextTick = process.nextTick;
+    const realPerformanceNow = performance.now;
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'performance', 'Date'] });
+
+    expect(process.nextTick).toBe(realNextTick);
+    expect(performance.now).toBe(realPerformanceNow);
+    expect(Date.now()).toBe(jest.getRealSystemTime());
+  });
+
+  test('jest.useRealTimers should restore the real APIs', () => {
+    const realSetTimeout = setTimeout;
+    const realDate = Date;
+    jest.useFakeTimers();
+    expect(setTimeout).not.toBe(realSetTimeout);
+
+    jest.useRealTimers();
+    expect(setTimeout).toBe(realSetTimeout);
+    expect(Date).toBe(realDate);
+    expect(typeof globalThis.requestAnimationFrame).toBe('undefined');
+  });
+});
+
+describe('Fake timers with promises', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  // Waits between timers, resuming only once the awaited promises settle
+  async function poll(calls, times) {
+    for (let i = 0; i < times; i++) {
+      await new Promise(resolve => setTimeout(resolve, 100));
+      calls.push(i);
+    }
+  }
+
+  test('jest.advanceTimersByTimeAsync should let promises settle between timers', async () => {
+    jest.useFakeTimers();
+    const calls = [];
+    poll(calls, 3);
+
+    await jest.advanceTimersByTimeAsync(250);
+    expect(calls).toEqual([0, 1]);
+    await jest.advanceTimersByTimeAsync(50);
+    expect(calls).toEqual([0, 1, 2]);
+  });
+
+  test('jest.runAllTimersAsync should run the timers scheduled after promises settle', async () => {
+    jest.useFakeTimers();
+    const calls = [];
+    poll(calls, 3);
+
+    await jest.runAllTimersAsync();
+    expect(calls).toEqual([0, 1, 2]);
+  });
+
+  test('jest.advanceTimersToNextTimerAsync should let promises settle before the next timer', async () => {
+    jest.useFakeTimers();
+    const calls = [];
+    poll(calls, 3);
+
+    await jest.advanceTimersToNextTimerAsync(2);
+    expect(calls).toEqual([0, 1]);
+  });
+
+  test('jest.advanceTimersToNextTimer should run recursive zero-delay timers once per step', async () => {
+    jest.useFakeTimers();
+    const timeout = jest.fn(() => setTimeout(timeout, 0));
+    const immediate = jest.fn(() => setImmediate(immediate));
+    setTimeout(timeout, 0);
+    setImmediate(immediate);
+    const start = Date.now();
+
+    // Each step runs the next timer along with the others due at the same time
+    jest.advanceTimersToNextTimer(4);
+    expect(immediate).toHaveBeenCalledTimes(4);
+    expect(timeout).toHaveBeenCalledTimes(4);
+    expect(Date.now() - start).toBe(3);
+
+    await jest.advanceTimersToNextTimerAsync(2);
+    expect(immediate).toHaveBeenCalledTimes(6);
+    expect(timeout).toHaveBeenCalledTimes(6);
+  });
+
+  test('jest.runOnlyPendingTimers should only run the timers pending when called', async () => {
+    jest.useFakeTimers();
+    const callback = jest.fn();
+    const nested = jest.fn();
+    setInterval(callback, 100);
+    setTimeout(() => setTimeout(nested, 0), 200);
+
+    jest.runOnlyPendingTimers();
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(nested).not.toHaveBeenCalled();
+    expect(jest.getTimerCount()).toBe(2);
+
+    await jest.runOnlyPendingTimersAsync();
+    expect(callback).toHaveBeenCalledTimes(2);
+    expect(nested).toHaveBeenCalledTimes(1);
+  });
+
+  test('timerLimit should abort runAllTimers on infinite loops', () => {
+    jest.useFakeTimers({ timerLimit: 50 });
+    const callback = jest.fn();
+    setInterval(callback, 100);
+
+    expect(() => jest.runAllTimers()).toThrow('Aborting after running 50 timers, assuming an infinite loop!');
+    expect(callback).toHaveBeenCalledTimes(50);
+  });
+
+  test('jest.advanceTimersByTime should run recursive zero-delay timers once per millisecond', async () => {
+    jest.useFakeTimers();
+    const timeout = jest.fn(() => setTimeout(timeout, 0));
+    const immediate = jest.fn(() => setImmediate(immediate));
+    setTimeout(timeout, 0);
+    setImmediate(immediate);
+
+    jest.advanceTimersByTime(100);
+    expect(timeout).toHaveBeenCalledTimes(101);
+    expect(immediate).toHaveBeenCalledTimes(101);
+
+    await jest.advanceTimersByTimeAsync(10);
+    expect(timeout).toHaveBeenCalledTimes(111);
+  });
+
+  test('timerLimit should abort advanceTimersByTime on infinite loops', () => {
+    jest.useFakeTimers({ timerLimit: 50 });
+    const callback = jest.fn(() => setTimeout(callback, 0));
+    setTimeout(callback, 0);
+
+    expect(() => jest.advanceTimersByTime(1000)).toThrow('Aborting after running 50 timers, assuming an infinite loop!');
+    expect(callback).toHaveBeenCalledTimes(50);
+  });
+
+  test('errors thrown by timers should be thrown once the due timers have run', () => {
+    jest.useFakeTimers();
+    const callback = jest.fn();
+    setTimeout(() => {
+      throw new Error('first');
+    }, 100);
+    setTimeout(callback, 200);
+
+    expect(() => jest.advanceTimersByTime(200)).toThrow('first');
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+
+  test('advanceTimers should advance the time along with the real time', async () => {
+    jest.useFakeTimers({ advanceTimers: 10 });
+    const callback = jest.fn();
+    setTimeout(callback, 30);
+
+    await delay(200);
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('Fake timers advancing with the real time', () => {
+  // Test file leaving the fake timers installed
+  const source = `
+test('advances the time', async () => {
+  const start = Date.now();
+  await new Promise(resolve => setTimeout(resolve, 20));
+  expect(Date.now() - start).toBeGreaterThanOrEqual(20);
+});
+`;
+
+  test('do not keep the process alive once the tests are over', () => {
+    const result = runTestProject({
+      'example.test.mjs': "jest.useFakeTimers({ advanceTimers: true });\n" + source
+    }, { timeout: 20000 });
+
+    expectSummary(result, { pass: 1 });
+  });
+
+  test('do not keep the process alive when enabled globally', () => {
+    const result = runTestProject({
+      'jest.config.json': JSON.stringify({ fakeTimers: { enableGlobally: true, advanceTimers: true } }),
+      'example.test.mjs': source
+    }, { timeout: 20000 });
+
+    expectSummary(result, { pass: 1 });
+  });
+});
@@ -0,0 +1,95 @@
+// This test verifies the hoisting of module mocks above imports
+// The adapter is imported via the --import flag in the test command
+import { describeWithModuleHooks, expectSummary, runTestProject } from './testProject.js';
+
+// Modules under test, the consumer binding the dependency when it is imported
+const fixtures = {
+  'dep.mjs': "export function greet(name) { return 'Hello ' + name; }\n",
+  'consumer.mjs': "import { greet } from './dep.mjs';\nexport const welcome = name => greet(name) + '!';\n",
+  'dep.cjs': "module.exports = { greet: name => 'Hello ' + name };\n",
+  'consumer.cjs': "const { greet } = require('./dep.cjs');\nmodule.exports = { welcome: name => greet(name) + '!' };\n",
+  'counter.mjs': 'export let count = 0;\nexport function increment() { count++; }\n'
+};
+
+describeWithModuleHooks('hoisting', () => {
+  test('runs jest.mock before the imports of ES modules', () => {
+    const result = runTestProject(`
+import { welcome } from './consumer.mjs';
+import * as dep from './dep.mjs';
+
+jest.mock('./dep.mjs', () => ({
+  greet: name => 'Hi ' + name
+}));
+
+test('hoisted', () => {
+  expect(welcome('World')).toBe('Hi World!');
+  expect(dep.greet('you')).toBe('Hi you');
+});
+`, { fixtures });
+
+    expectSummary(result, { pass: 1 });
+  });
+
+  test('runs vi.hoisted before vi.mock, for factories to use its result', () => {
+    const result = runTestProject(`
+import { welcome } from './consumer.mjs';
+
+const { mockGreet } = vi.hoisted(() => ({ mockGreet: vi.fn(() => 'mocked') }));
+
+vi.mock('./dep.mjs', () => ({ greet: mockGreet }));
+
+test('hoisted', () => {
+  expect(welcome('World')).toBe('mocked!');
+  expect(mockGreet).toHaveBeenCalledWith('World');
+});
+`, { fixtures });
+
+    expectSummary(result, { pass: 1 });
+  });
+
+  test('keeps the imported bindings live', () => {
+    const result = runTestProject(`
+import { count, increment } from './counter.mjs';
+import { welcome } from './consumer.mjs';
+
+jest.mock('./dep.mjs', () => ({ greet: name => 'Hi ' + name }));
+
+test('live binding', () => {
+  expect(count).toBe(0);
+  increment();
+  expect(count).toBe(1);
+  expect(welcome('World')).toBe('Hi World!');
+});
+`, { fixtures });
+
+    expectSummary(result, { pass: 1 });
+  });
+
+  test('runs jest.mock before the requires of CommonJS modules', () => {
+    const result = runTestProject(`
+'use strict';
+const { welcome } = require('./consumer.cjs');
+
+jest.mock('./dep.cjs', () => ({ greet: name => 'Hi ' + name }));
+
+test('hoisted', () => {
+  expect(welcome('World')).toBe('Hi World!');
+});
+`, { testFile: 'example.test.cjs', fixtures });
+
+    expectSummary(result, { pass: 1 });
+  });
+
+  test('keeps lines and maps columns back to the original source', () => {
+    const result = runTestProject(`import { welcome } from './consumer.mjs';
+jest.mock('./dep.mjs', () => ({ greet: () => new Error('here').stack }));
+
+test('source map', () => {
+  expect(welcome('World')).toContain('example.test.mjs:2:46');
+  expect(new Error('there').stack).toContain('example.test.mjs:6:10');
+});
+`, { fixtures, args: ['--enable-source-maps'] });
+
+    expectSummary(result, { pass: 1 });
+  });
+});
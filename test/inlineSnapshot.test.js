@@ -0,0 +1,114 @@
+// This test verifies toMatchInlineSnapshot and the rewriting of test sources
+// The adapter is imported via the --import flag in the test command
+import { expectSummary, hasUpdateSnapshotsFlag, runTestProject } from './testProject.js';
+
+describe('toMatchInlineSnapshot', () => {
+  test('matches primitives, multi-line snapshots and escaped template literals', () => {
+    // Run without updating snapshots, so mismatching snapshots fail instead of being rewritten
+    const source = [
+      "test('primitives', () => {",
+      '  expect(42).toMatchInlineSnapshot(`42`);',
+      "  expect('text').toMatchInlineSnapshot(`\"text\"`);",
+      '  expect(undefined).toMatchInlineSnapshot(`undefined`);',
+      '});',
+      "test('multi-line', () => {",
+      '  expect({ a: 1, b: [true, null] }).toMatchInlineSnapshot(`',
+      '    {',
+      '      "a": 1,',
+      '      "b": [',
+      '        true,',
+      '        null,',
+      '      ],',
+      '    }',
+      '  `);',
+      '});',
+      "test('escaped', () => {",
+      "  expect('`${x}`').toMatchInlineSnapshot(`\"\\`\\${x}\\`\"`);",
+      '});',
+      "test('mismatching', () => {",
+      '  expect({ a: 2 }).toMatchInlineSnapshot(`',
+      '    {',
+      '      "a": 1,',
+      '    }',
+      '  `);',
+      '});',
+      ''
+    ].join('\n');
+
+    const result = runTestProject(source);
+    expectSummary(result, { pass: 3, fail: 1 });
+    expect(result.files['example.test.mjs']).toBe(source);
+  });
+
+  test('cannot be used with .not', () => {
+    expect(() => expect(1).not.toMatchInlineSnapshot(`1`)).toThrow('toMatchInlineSnapshot cannot be used with .not');
+  });
+
+  test('writes missing snapshots in ESM test files', () => {
+    const source = [
+      "test('writes', () => {",
+      '  expect({ a: 1 }).toMatchInlineSnapshot();',
+      '  expect(1).toMatchInlineSnapshot( );',
+      '});',
+      ''
+    ].join('\n');
+
+    const { status, files } = runTestProject(source);
+    expect(status).toBe(0);
+    expect(files['example.test.mjs']).toBe([
+      "test('writes', () => {",
+      '  expect({ a: 1 }).toMatchInlineSnapshot(`',
+      '    {',
+      '      "a": 1,',
+      '    }',
+      '  `);',
+      '  expect(1).toMatchInlineSnapshot(`1`);',
+      '});',
+      ''
+    ].join('\n'));
+  });
+
+  test('rewrites mismatching snapshots in CJS test files when updating', () => {
+    const source = [
+      "const value = require('node:path').sep.length;",
+      "describe('suite', () => {",
+      "  test('rewrites', () => {",
+      '    expect(value).toMatchInlineSnapshot(`2`);',
+      "    expect([value]).toMatchInlineSnapshot(\"'old'\");",
+      '  });',
+      '});',
+      ''
+    ].join('\n');
+
+    const { status, files } = runTestProject(source, { testFile: 'example.test.cjs', updateSnapshots: true });
+    expect(status).toBe(0);
+    expect(files['example.test.cjs']).toBe([
+      "const value = require('node:path').sep.length;",
+      "describe('suite', () => {",
+      "  test('rewrites', () => {",
+      '    expect(value).toMatchInlineSnapshot(`1`);',
+      '    expect([value]).toMatchInlineSnapshot(`',
+      '      [',
+      '        1,',
+      '      ]',
+      '    `);',
+      '  });',
+      '});',
+      ''
+    ].join('\n'));
+  });
+
+  (hasUpdateSnapshotsFlag ? test : test.skip)('rewrites mismatching snapshots with --test-update-snapshots', () => {
+    const source = "test('rewrites', () => { expect(1).toMatchInlineSnapshot(`2`); });\n";
+    const { status, files } = runTestProject(source, { args: ['--test-update-snapshots'] });
+    expect(status).toBe(0);
+    expect(files['example.test.mjs']).toBe("test('rewrites', () => { expect(1).toMatchInlineSnapshot(`1`); });\n");
+  });
+
+  test('fails on mismatching snapshots without updating', () => {
+    const source = "test('fails', () => { expect(1).toMatchInlineSnapshot(`2`); });\n";
+    const { status, files } = runTestProject(source);
+    expect(status).toBe(1);
+    expect(files['example.test.mjs']).toBe(source);
+  });
+});
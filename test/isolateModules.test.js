@@ -0,0 +1,113 @@
+// This test verifies jest.isolateModules() and jest.isolateModulesAsync()
+// The adapter is imported via the --import flag in the test command
+import { expectSummary, runTestProject, testWithModuleHooks } from './testProject.js';
+
+// Config modules read once when loaded, along with a dependency to check transitive loads
+const fixtures = {
+  'config.cjs': "module.exports = { mode: process.env.MODE, dep: require('./dep.cjs') };\n",
+  'config.mjs': "import * as dep from './dep.mjs';\nexport const mode = process.env.MODE;\nexport { dep };\n",
+  'dep.cjs': "module.exports = { greet: name => 'Hello ' + name };\n",
+  'dep.mjs': "export function greet(name) { return 'Hello ' + name; }\n"
+};
+
+describe('jest.isolateModules', () => {
+  test('loads CommonJS modules in a fresh registry, discarded afterwards', () => {
+    const result = runTestProject(`
+import { createRequire } from 'node:module';
+
+const require = createRequire(import.meta.url);
+
+test('isolated require', () => {
+  process.env.MODE = 'first';
+  const config = require('./config.cjs');
+
+  let isolated;
+  process.env.MODE = 'second';
+  expect(jest.isolateModules(() => {
+    isolated = require('./config.cjs');
+    expect(require('./config.cjs')).toBe(isolated);
+  })).toBe(jest);
+
+  expect(isolated.mode).toBe('second');
+  expect(isolated.dep).not.toBe(config.dep);
+  expect(require('./config.cjs')).toBe(config);
+  expect(require('./config.cjs').mode).toBe('first');
+});
+`, { fixtures });
+
+    expectSummary(result, { pass: 1 });
+  });
+
+  test('cannot be nested', () => {
+    expect(() => jest.isolateModules(() => jest.isolateModules(() => {}))).toThrow(
+      'isolateModules cannot be nested inside another isolateModules or isolateModulesAsync.'
+    );
+    // The failed call does not leave the registry isolated
+    expect(jest.isolateModules(() => {})).toBe(jest);
+  });
+});
+
+describe('jest.isolateModulesAsync', () => {
+  testWithModuleHooks('imports ES modules in a fresh registry, discarded afterwards', () => {
+    const result = runTestProject(`
+test('isolated import', async () => {
+  process.env.MODE = 'first';
+  const config = await import('./config.mjs');
+
+  let isolated;
+  process.env.MODE = 'second';
+  await jest.isolateModulesAsync(async () => {
+    isolated = await import('./config.mjs');
+    expect(await import('./config.mjs')).toBe(isolated);
+  });
+
+  expect(isolated.mode).toBe('second');
+  expect(isolated.dep).not.toBe(config.dep);
+  expect(await import('./config.mjs')).toBe(config);
+});
+`, { fixtures });
+
+    expectSummary(result, { pass: 1 });
+  });
+
+  test('keeps applying module mocks', () => {
+    const result = runTestProject(`
+import { createRequire } from 'node:module';
+
+jest.mock('./dep.mjs', () => ({ greet: () => 'mocked' }));
+jest.mock('./dep.cjs', () => ({ greet: () => 'mocked' }));
+
+test('isolated mocks', async () => {
+  const require = createRequire(import.meta.url);
+  await jest.isolateModulesAsync(async () => {
+    expect((await import('./config.mjs')).dep.greet('World')).toBe('mocked');
+    expect(require('./config.cjs').dep.greet('World')).toBe('mocked');
+  });
+});
+`, { fixtures });
+
+    expectSummary(result, { pass: 1 });
+  });
+
+  test('is refused in concurrent tests', () => {
+    const result = runTestProject(`
+describe('concurrent', () => {
+  test.concurrent('isolated', async () => {
+    await expect(jest.isolateModulesAsync(async () => {})).rejects.toThrow(
+      'isolateModulesAsync cannot be used in concurrent tests'
+    );
+  });
+
+  test('runs alone', async () => {
+    await jest.isolateModulesAsync(async () => {});
+  });
+});
+
+test('sequential', async () => {
+  await jest.isolateModulesAsync(async () => {});
+});
+`, { fixtures });
+
+    expectSummary(result, { pass: 3 });
+  });
+});
@@ -0,0 +1,249 @@
+// This test verifies the Jest configuration read from jest.config.* files and package.json
+// The adapter is imported via the --import flag in the test command
+import { fileURLToPath } from 'node:url';
+import { expectSummary, runTestProject } from './testProject.js';
+
+const configPath = fileURLToPath(new URL('../dist/esm/config.js', import.meta.url));
+
+
+// Test file checking the timeout and the mock options set in the configuration
+const configTest = `
+import { getConfig } from '${configPath}';
+const mockFn = jest.fn();
+
+test('reads the configuration', () => {
+  expect(getConfig().testTimeout).toBe(1234);
+  mockFn();
+});
+
+test('clears the mocks before each test', () => {
+  expect(mockFn).not.toHaveBeenCalled();
+});
+`;
+
+describe('Jest configuration', () => {
+  test('is read from jest.config.js', () => {
+    const result = runTestProject({
+      'jest.config.js': 'module.exports = { testTimeout: 1234, clearMocks: true };\n',
+      'example.test.mjs': configTest
+    });
+
+    expectSummary(result, { pass: 2 });
+  });
+
+  test('is read from the default export of jest.config.mjs, also as a function', () => {
+    const result = runTestProject({
+      'jest.config.mjs': 'export default () => ({ testTimeout: 1234, clearMocks: true });\n',
+      'example.test.mjs': configTest
+    });
+
+    expectSummary(result, { pass: 2 });
+  });
+
+  test('is read from the "jest" key of package.json', () => {
+    const result = runTestProject({
+      'package.json': JSON.stringify({ name: 'example', jest: { testTimeout: 1234, clearMocks: true } }),
+      'example.test.mjs': configTest
+    });
+
+    expectSummary(result, { pass: 2 });
+  });
+
+  test('is read from the file named by JEST_COMPAT_CONFIG', () => {
+    const result = runTestProject({
+      'config/custom.json': JSON.stringify({ testTimeout: 1234, clearMocks: true }),
+      'example.test.mjs': configTest
+    }, { env: { JEST_COMPAT_CONFIG: 'config/custom.json' } });
+
+    expectSummary(result, { pass: 2 });
+  });
+
+  test('fails with multiple configurations', () => {
+    const result = runTestProject({
+      'jest.config.js': 'module.exports = {};\n',
+      'jest.config.json': '{}',
+      'example.test.mjs': "test('never runs', () => {});\n"
+    });
+
+    expect(result.stdout).toContain('Multiple Jest configurations found');
+    // The test file fails to load
+    expectSummary(result, { pass: 0, fail: 1 });
+  });
+
+  test('fails with invalid values, naming the file', () => {
+    const result = runTestProject({
+      'jest.config.json': JSON.stringify({ testTimeout: 'slow' }),
+      'example.test.mjs': "test('never runs', () => {});\n"
+    });
+
+    expect(result.stdout).toContain('Invalid value for option "testTimeout" in "jest.config.json"');
+    expectSummary(result, { pass: 0, fail: 1 });
+  });
+
+  test('warns about the options that are not supported', () => {
+    const result = runTestProject({
+      'jest.config.json': JSON.stringify({ testTimeout: 1234, transform: {}, testEnvironment: 'jsdom', fakeTimers: { legacyFakeTimers: true } }),
+      'example.test.mjs': "test('runs', () => {});\n"
+    });
+
+    expect(result.stdout).toContain('not supported by @simonegianni/node-test-jest-compat and are ignored: transform, testEnvironment, fakeTimers.legacyFakeTimers');
+    expectSummary(result, { pass: 1 });
+  });
+
+  test('merges the preset, concatenating the setup files', () => {
+    const result = runTestProject({
+      'preset/jest-preset.json': JSON.stringify({ testTimeout: 1234, clearMocks: true, setupFiles: ['<rootDir>/first.cjs'] }),
+      'jest.config.json': JSON.stringify({ preset: './preset', setupFiles: ['./second.cjs'] }),
+      'first.cjs': 'globalThis.setupOrder = ["first"];\n',
+      'second.cjs': 'globalThis.setupOrder.push("second");\n',
+      'example.test.mjs': configTest + "\ntest('loads the setup files', () => expect(globalThis.setupOrder).toEqual(['first', 'second']));\n"
+    });
+
+    expectSummary(result, { pass: 3 });
+  });
+
+  test('uses the project containing the test file', () => {
+    const result = runTestProject({
+      'jest.config.json': JSON.stringify({
+        clearMocks: true,
+        projects: [{ rootDir: '<rootDir>/other', testTimeout: 1 }, '<rootDir>/packages/example']
+      }),
+      'packages/example/jest.config.json': JSON.stringify({ testTimeout: 1234 }),
+      'packages/example/example.test.mjs': configTest
+    }, { testFile: 'packages/example/example.test.mjs' });
+
+    expectSummary(result, { pass: 2 });
+  });
+});
+
+describe('Jest configuration options', () => {
+  test('setupFilesAfterEnv runs after setupFiles, with the globals available', () => {
+    const result = runTestProject({
+      'jest.config.json': JSON.stringify({ setupFiles: ['./setup.cjs'], setupFilesAfterEnv: ['<rootDir>/setupAfterEnv.mjs'] }),
+      'setup.cjs': 'globalThis.setupOrder = ["setupFiles"];\n',
+      'setupAfterEnv.mjs': `
+globalThis.setupOrder.push('setupFilesAfterEnv');
+expect.extend({ toBeEven: value => ({ pass: value % 2 === 0, message: () => value + ' is not even' }) });
+beforeEach(() => globalThis.setupOrder.push('beforeEach'));
+`,
+      'example.test.mjs': `
+test('runs the setup files', () => {
+  expect(globalThis.setupOrder).toEqual(['setupFiles', 'setupFilesAfterEnv', 'beforeEach']);
+  expect(2).toBeEven();
+});
+`
+    });
+
+    expectSummary(result, { pass: 1 });
+  });
+
+  test('imports the setup files that cannot be required before the tests run', () => {
+    const result = runTestProject({
+      'jest.config.json': JSON.stringify({ setupFiles: ['./setup.cjs'], setupFilesAfterEnv: ['./setupAfterEnv.mjs', './last.cjs'] }),
+      'setup.cjs': 'globalThis.setupOrder = ["setupFiles"];\n',
+      // Top-level await keeps require() from loading the module on every Node.js version
+      'setupAfterEnv.mjs': `
+await Promise.resolve();
+globalThis.setupOrder.push('setupFilesAfterEnv');
+expect.extend({ toBeEven: value => ({ pass: value % 2 === 0, message: () => value + ' is not even' }) });
+beforeEach(() => globalThis.setupOrder.push('beforeEach'));
+`,
+      'last.cjs': 'globalThis.setupOrder.push("last");\n',
+      'example.test.mjs': `
+test('runs the setup files', () => {
+  expect(globalThis.setupOrder).toEqual(['setupFiles', 'setupFilesAfterEnv', 'last', 'beforeEach']);
+  expect(2).toBeEven();
+});
+
+describe('nested', () => {
+  test('runs their hooks', () => {
+    expect(globalThis.setupOrder.at(-1)).toBe('beforeEach');
+  });
+});
+`
+    });
+
+    expectSummary(result, { pass: 2 });
+  });
+
+  test('fakeTimers.enableGlobally installs the fake timers with the configured options', () => {
+    const result = runTestProject({
+      'jest.config.json': JSON.stringify({ fakeTimers: { enableGlobally: true, now: 1000 } }),
+      'example.test.mjs': `
+test('uses fake timers', () => {
+  const callback = jest.fn();
+  setTimeout(callback, 100);
+  expect(Date.now()).toBe(1000);
+  jest.advanceTimersByTime(100);
+  expect(callback).toHaveBeenCalled();
+});
+
+test('keeps the configured options in useFakeTimers()', () => {
+  jest.useFakeTimers({ doNotFake: ['Date'] });
+  expect(jest.now()).toBe(1000);
+  expect(Date.now()).not.toBe(1000);
+});
+`
+    });
+
+    expectSummary(result, { pass: 2 });
+  });
+
+  test('randomize shuffles the tests of describe blocks from the seed, keeping the hooks', () => {
+    const tests = Array.from({ length: 10 }, (_, i) => `  test('test ${i}', () => { order.push(${i}); });`).join('\n');
+    const result = runTestProject({
+      'jest.config.json': JSON.stringify({ randomize: true }),
+      'example.test.mjs': `
+const order = [];
+describe('block', () => {
+  beforeAll(() => order.push('beforeAll'));
+${tests}
+  afterAll(() => {
+    const ran = order.slice(1);
+    if (order[0] !== 'beforeAll' || ran.length !== 10) throw new Error('Unexpected order ' + order);
+    if (ran.every((value, index) => value === index)) throw new Error('Tests were not shuffled');
+  });
+});
+`
+    });
+
+    expectSummary(result, { pass: 10 });
+  });
+
+  test('randomize shuffles the tests at the top level of the file too, printing the seed', () => {
+    const tests = Array.from({ length: 10 }, (_, i) => `test('test ${i}', () => { order.push(${i}); });`).join('\n');
+    const result = runTestProject({
+      'jest.config.json': JSON.stringify({ randomize: true }),
+      'example.test.mjs': `
+const order = [];
+beforeAll(() => order.push('beforeAll'));
+${tests}
+afterAll(() => {
+  const ran = order.slice(1);
+  if (order[0] !== 'beforeAll' || ran.length !== 10) throw new Error('Unexpected order ' + order);
+  if (ran.every((value, index) => value === index)) throw new Error('Tests were not shuffled');
+});
+`
+    });
+
+    expect(result.stdout + result.stderr).toMatch(/Seed: -?\d+/);
+    expectSummary(result, { pass: 10 });
+  });
+
+  test('seed reproduces the random order and is returned by jest.getSeed()', () => {
+    const tests = Array.from({ length: 10 }, (_, i) => `test('test ${i}', () => {});`).join('\n');
+    const files = {
+      'jest.config.json': JSON.stringify({ randomize: true }),
+      'example.test.mjs': `${tests}\ntest('test seed', () => expect(jest.getSeed()).toBe(1234));\n`
+    };
+    const ranOrder = result => result.stdout.match(/^ok \d+ - test \w+/gm).map(line => line.replace(/^ok \d+ - /, ''));
+
+    const first = runTestProject(files, { env: { JEST_COMPAT_SEED: '1234' } });
+    const second = runTestProject(files, { env: { JEST_COMPAT_SEED: '1234' } });
+
+    expect(first.stdout + first.stderr).toContain('Seed: 1234');
+    expectSummary(first, { pass: 11 });
+    expect(ranOrder(first)).toEqual(ranOrder(second));
+    expect(ranOrder(first)).not.toEqual([...Array.from({ length: 10 }, (_, i) => `test ${i}`), 'test seed']);
+  });
+});
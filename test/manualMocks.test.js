@@ -0,0 +1,75 @@
+// This test verifies manual mocks in __mocks__ directories
+// The adapter is imported via the --import flag in the test command
+import { expectSummary, runTestProject, testWithModuleHooks } from './testProject.js';
+
+// Project with user modules, a package and their manual mocks
+const fixtures = {
+  'db.mjs': "export function query() { return 'actual rows'; }\n",
+  '__mocks__/db.mjs': "export const query = jest.fn(() => 'mocked rows');\n",
+  'lib/legacy.cjs': "module.exports = { load: () => 'actual' };\n",
+  'lib/__mocks__/legacy.cjs': "module.exports = { load: () => 'mocked' };\n",
+  'node_modules/fake-http/package.json': '{ "name": "fake-http", "main": "index.js" }\n',
+  'node_modules/fake-http/index.js': "module.exports = { get: () => 'actual response' };\n",
+  '__mocks__/fake-http.js': "module.exports = { get: () => 'mocked response' };\n",
+  '__mocks__/os.js': "module.exports = { platform: () => 'mocked-os' };\n"
+};
+
+describe('manual mocks', () => {
+  test('replace user modules mocked without a factory', () => {
+    const result = runTestProject(`
+jest.mock('./db.mjs');
+jest.mock('./lib/legacy.cjs');
+const { query } = await import('./db.mjs');
+const legacy = (await import('./lib/legacy.cjs')).default;
+
+test('manual mock', () => {
+  expect(query()).toBe('mocked rows');
+  expect(query).toHaveBeenCalled();
+  expect(legacy.load()).toBe('mocked');
+});
+`, { fixtures });
+
+    expectSummary(result, { pass: 1 });
+  });
+
+  test('are returned by jest.requireMock', () => {
+    const result = runTestProject(`
+jest.mock('./db.mjs');
+const { query } = await import('./db.mjs');
+
+test('requireMock', () => {
+  expect(jest.requireMock('./db.mjs').query).toBe(query);
+  expect(jest.requireMock('./lib/legacy.cjs').load()).toBe('mocked');
+});
+`, { fixtures });
+
+    expectSummary(result, { pass: 1 });
+  });
+
+  testWithModuleHooks('replace packages from the root __mocks__ directory without jest.mock', () => {
+    const result = runTestProject(`
+import http from 'fake-http';
+import { query } from './db.mjs';
+
+test('package mock', () => {
+  expect(http.get()).toBe('mocked response');
+  expect(query()).toBe('actual rows');
+});
+`, { fixtures });
+
+    expectSummary(result, { pass: 1 });
+  });
+
+  test('replace built-in modules mocked without a factory', () => {
+    const result = runTestProject(`
+jest.mock('os');
+const os = (await import('os')).default;
+
+test('built-in mock', () => {
+  expect(os.platform()).toBe('mocked-os');
+});
+`, { fixtures });
+
+    expectSummary(result, { pass: 1 });
+  });
+});
@@ -0,0 +1,138 @@
+// This test verifies the clearMocks, resetMocks and restoreMocks options, and the mocks
+// scoped to the test creating them
+// The adapter is imported via the --import flag in the test command
+import { configure } from '../dist/esm/index.js';
+
+describe('clearMocks', () => {
+  const mockFn = jest.fn();
+
+  beforeAll(() => configure({ clearMocks: true }));
+  afterAll(() => configure({ clearMocks: false }));
+
+  test('calls a mock', () => {
+    mockFn.mockReturnValue('value');
+    mockFn('first');
+    expect(mockFn).toHaveBeenCalledTimes(1);
+  });
+
+  test('clears its calls before the next test, keeping its implementation', () => {
+    expect(mockFn).not.toHaveBeenCalled();
+    expect(mockFn()).toBe('value');
+  });
+});
+
+describe('resetMocks', () => {
+  const mockFn = jest.fn();
+
+  beforeAll(() => configure({ resetMocks: true }));
+  afterAll(() => configure({ resetMocks: false }));
+
+  beforeEach(() => {
+    mockFn.mockReturnValueOnce('from beforeEach');
+  });
+
+  test('calls a mock', () => {
+    mockFn.mockReturnValue('value');
+    expect(mockFn()).toBe('from beforeEach');
+  });
+
+  test('resets it before the beforeEach hooks of the next test', () => {
+    expect(mockFn()).toBe('from beforeEach');
+    expect(mockFn()).toBeUndefined();
+    expect(mockFn).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('restoreMocks', () => {
+  const object = { method: () => 'original' };
+
+  beforeAll(() => configure({ restoreMocks: true }));
+  afterAll(() => configure({ restoreMocks: false }));
+
+  test('spies on a method', () => {
+    jest.spyOn(object, 'method').mockReturnValue('mocked');
+    expect(object.method()).toBe('mocked');
+  });
+
+  test('restores it before the next test', () => {
+    expect(jest.isMockFunction(object.method)).toBe(false);
+    expect(object.method()).toBe('original');
+  });
+});
+
+describe('mocks created in a test', () => {
+  let mockFn;
+
+  test('creates a mock', () => {
+    mockFn = jest.fn();
+    mockFn(1);
+  });
+
+  test('keeps its calls in the next test', () => {
+    expect(mockFn).toHaveBeenCalledWith(1);
+  });
+
+  test('are cleared by jest.clearAllMocks()', () => {
+    const created = jest.fn();
+    created();
+    jest.clearAllMocks();
+    expect(created).not.toHaveBeenCalled();
+    expect(mockFn).not.toHaveBeenCalled();
+  });
+});
+
+describe('mocks created in a test with clearMocks', () => {
+  let mockFn;
+
+  beforeAll(() => configure({ clearMocks: true }));
+  afterAll(() => configure({ clearMocks: false }));
+
+  test('creates a mock', () => {
+    mockFn = jest.fn();
+    mockFn(1);
+  });
+
+  test('clears its calls before the next test', () => {
+    expect(mockFn).not.toHaveBeenCalled();
+  });
+});
+
+describe('spies and replaced properties in concurrent tests', () => {
+  const delay = ms => new Promise(resolve => setTimeout(resolve, ms));
+  const object = { method: () => 'original', property: 'original' };
+
+  test.concurrent('keeps its spies while another test restores', async () => {
+    jest.spyOn(object, 'method').mockReturnValue('mocked');
+    jest.replaceProperty(object, 'property', 'replaced');
+    // The other test restores its mocks meanwhile
+    await delay(50);
+    expect(object.method()).toBe('mocked');
+    expect(object.property).toBe('replaced');
+    jest.restoreAllMocks();
+    expect(object.method()).toBe('original');
+    expect(object.property).toBe('original');
+  });
+
+  test.concurrent('restores its own spies only', async () => {
+    await delay(10);
+    const other = { method: () => 'original' };
+    jest.spyOn(other, 'method').mockReturnValue('mocked');
+    jest.restoreAllMocks();
+    expect(other.method()).toBe('original');
+    expect(object.method()).toBe('mocked');
+  });
+});
+
+describe('spies left in place by a test', () => {
+  const object = { method: () => 'original' };
+
+  test('spies on a method', () => {
+    jest.spyOn(object, 'method').mockReturnValue('mocked');
+  });
+
+  test('are restored by jest.restoreAllMocks() in the next test', () => {
+    expect(object.method()).toBe('mocked');
+    jest.restoreAllMocks();
+    expect(object.method()).toBe('original');
+  });
+});
@@ -0,0 +1,70 @@
+// This test verifies the detection and removal of obsolete snapshots, and the snapshot summary
+// The adapter is imported via the --import flag in the test command
+import path from 'node:path';
+import { runTestProject } from './testProject.js';
+
+const testSource = `
+test('kept', () => {
+  expect('kept').toMatchSnapshot();
+});
+
+test.skip('skipped', () => {
+  expect('skipped').toMatchSnapshot();
+});
+`;
+
+const snapshot = [
+  '// Jest Snapshot v1, https://goo.gl/fbAQLP',
+  '',
+  'exports[`kept 1`] = `"kept"`;',
+  '',
+  'exports[`removed 1`] = `"removed"`;',
+  '',
+  'exports[`skipped 1`] = `"skipped"`;',
+  ''
+].join('\n');
+
+// Snapshot file of the test file, along with the one of a deleted test file
+const fixtures = {
+  '__snapshots__/example.test.mjs.snap': snapshot,
+  '__snapshots__/deleted.test.mjs.snap': snapshot
+};
+
+describe('obsolete snapshots', () => {
+  test('are reported without removing them', () => {
+    const { status, stdout, files } = runTestProject(testSource, { fixtures });
+
+    expect(status).toBe(0);
+    expect(stdout).toContain('Snapshot Summary (example.test.mjs)');
+    expect(stdout).toContain('1 snapshot obsolete.');
+    expect(stdout).toContain('• removed 1');
+    expect(stdout).not.toContain('• skipped 1');
+    expect(stdout).toContain('1 snapshot passed.');
+    expect(stdout).toContain('1 snapshot file obsolete.');
+    expect(stdout).toContain(`• ${path.join('__snapshots__', 'deleted.test.mjs.snap')}`);
+    expect(files['__snapshots__/example.test.mjs.snap']).toBe(snapshot);
+    expect(files['__snapshots__/deleted.test.mjs.snap']).toBe(snapshot);
+  });
+
+  test('are kept when updating snapshots by default', () => {
+    const { status, files } = runTestProject(testSource, { fixtures, updateSnapshots: true });
+
+    expect(status).toBe(0);
+    expect(files['__snapshots__/example.test.mjs.snap']).toBe(snapshot);
+    expect(files['__snapshots__/deleted.test.mjs.snap']).toBe(snapshot);
+  });
+
+  test('are removed when updating snapshots with removeObsoleteSnapshots', () => {
+    const { status, stdout, files } = runTestProject(testSource, {
+      fixtures,
+      updateSnapshots: true,
+      env: { JEST_COMPAT_REMOVE_OBSOLETE_SNAPSHOTS: 'true' }
+    });
+
+    expect(status).toBe(0);
+    expect(stdout).toContain('1 snapshot removed.');
+    expect(stdout).toContain('1 snapshot file removed.');
+    expect(files['__snapshots__/example.test.mjs.snap']).toBe(snapshot.replace('exports[`removed 1`] = `"removed"`;\n\n', ''));
+    expect(files).not.toHaveProperty(['__snapshots__/deleted.test.mjs.snap']);
+  });
+});
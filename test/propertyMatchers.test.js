@@ -0,0 +1,80 @@
+// This test verifies property matchers and hints of toMatchSnapshot and toMatchInlineSnapshot
+// The adapter is imported via the --import flag in the test command
+import { runTestProject } from './testProject.js';
+
+const response = () => ({
+  id: Math.random().toString(36),
+  createdAt: new Date(),
+  name: 'Example',
+  tags: [{ id: Math.random(), label: 'first' }]
+});
+
+describe('snapshot property matchers', () => {
+  test('store the matchers in place of the values', () => {
+    expect(response()).toMatchInlineSnapshot(
+      {
+        id: expect.any(String),
+        createdAt: expect.any(Date),
+        tags: [{ id: expect.any(Number) }]
+      },
+      `
+      {
+        "createdAt": Any<Date>,
+        "id": Any<String>,
+        "name": "Example",
+        "tags": [
+          {
+            "id": Any<Number>,
+            "label": "first",
+          },
+        ],
+      }
+    `
+    );
+  });
+
+  test('fail before comparing the snapshot when they do not match', () => {
+    expect(() => expect({ id: 1 }).toMatchInlineSnapshot({ id: expect.any(String) }, `{}`)).toThrow('Expected properties');
+  });
+
+  test('require an object', () => {
+    expect(() => expect('text').toMatchSnapshot({ id: expect.any(String) })).toThrow('received value must be a non-null object');
+    expect(() => expect({}).toMatchSnapshot(42)).toThrow('expected properties must be an object');
+  });
+
+  test('combine with hints in the snapshot name', () => {
+    const { status, files } = runTestProject([
+      "describe('api', () => {",
+      "  test('update', () => {",
+      "    expect({ id: Math.random() }).toMatchSnapshot({ id: expect.any(Number) }, 'after update');",
+      "    expect({ id: Math.random() }).toMatchSnapshot({ id: expect.any(Number) }, 'after update');",
+      "    expect('done').toMatchSnapshot('status');",
+      "    expect('plain').toMatchSnapshot();",
+      '  });',
+      '});',
+      ''
+    ].join('\n'));
+
+    expect(status).toBe(0);
+    expect(files['__snapshots__/example.test.mjs.snap']).toBe([
+      '// Jest Snapshot v1, https://goo.gl/fbAQLP',
+      '',
+      'exports[`api update 1`] = `"plain"`;',
+      '',
+      'exports[`api update: after update 1`] = `',
+      '{',
+      '  "id": Any<Number>,',
+      '}',
+      '`;',
+      '',
+      'exports[`api update: after update 2`] = `',
+      '{',
+      '  "id": Any<Number>,',
+      '}',
+      '`;',
+      '',
+      'exports[`api update: status 1`] = `"done"`;',
+      ''
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,52 @@
+// This test verifies jest.mocked() and jest.replaceProperty()
+// The adapter is imported via the --import flag in the test command
+
+describe('jest.mocked', () => {
+  test('returns its argument', () => {
+    const mockFn = jest.fn();
+    expect(jest.mocked(mockFn)).toBe(mockFn);
+
+    const object = { method: jest.fn() };
+    expect(jest.mocked(object, { shallow: true })).toBe(object);
+  });
+});
+
+describe('jest.replaceProperty', () => {
+  const config = { env: 'production', retries: 3 };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('replaces the value of a property', () => {
+    const replaced = jest.replaceProperty(config, 'env', 'test');
+    expect(config.env).toBe('test');
+
+    replaced.replaceValue('development');
+    expect(config.env).toBe('development');
+
+    replaced.restore();
+    expect(config.env).toBe('production');
+  });
+
+  test('is undone by jest.restoreAllMocks with spies', () => {
+    const spy = jest.spyOn(Math, 'random').mockReturnValue(0.5);
+    jest.replaceProperty(config, 'retries', 0);
+    expect(Math.random()).toBe(0.5);
+    expect(config.retries).toBe(0);
+
+    jest.restoreAllMocks();
+    expect(jest.isMockFunction(Math.random)).toBe(false);
+    expect(config.retries).toBe(3);
+    expect(spy).toBeDefined();
+  });
+
+  test('fails for properties that do not exist', () => {
+    expect(() => jest.replaceProperty(config, 'missing', 1)).toThrow('Property `missing` does not exist');
+  });
+
+  test('is also available on vi', () => {
+    vi.replaceProperty(config, 'env', 'vitest');
+    expect(config.env).toBe('vitest');
+  });
+});
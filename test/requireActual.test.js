@@ -0,0 +1,77 @@
+// This test verifies jest.requireActual() and jest.requireMock()
+// The adapter is imported via the --import flag in the test command
+import path from 'node:path';
+import { expectSummary, runTestProject, testWithModuleHooks } from './testProject.js';
+
+const fixtures = {
+  'dep.mjs': "export function greet(name) { return 'Hello ' + name; }\nexport function shout(name) { return name.toUpperCase(); }\n",
+  'dep.cjs': "module.exports = { greet: name => 'Hello ' + name };\n"
+};
+
+describe('jest.requireActual', () => {
+  test('loads modules synchronously, relative to the test file', () => {
+    const packageJson = jest.requireActual('../package.json');
+    expect(packageJson.name).toBe('@simonegianni/node-test-jest-compat');
+
+    const actualPath = jest.requireActual('node:path');
+    expect(actualPath).not.toBeInstanceOf(Promise);
+    expect(actualPath.join('a', 'b')).toBe(path.join('a', 'b'));
+  });
+
+  testWithModuleHooks('supports partial mocks in factories', () => {
+    const result = runTestProject(`
+import { greet, shout } from './dep.mjs';
+
+jest.mock('./dep.mjs', () => ({
+  ...jest.requireActual('./dep.mjs'),
+  greet: jest.fn(() => 'mocked')
+}));
+
+test('partial mock', () => {
+  expect(greet('World')).toBe('mocked');
+  expect(shout('World')).toBe('WORLD');
+});
+`, { fixtures });
+
+    expectSummary(result, { pass: 1 });
+  });
+
+  testWithModuleHooks('gets the actual module of mocked modules', () => {
+    const result = runTestProject(`
+import { createRequire } from 'node:module';
+import { greet } from './dep.mjs';
+
+jest.mock('./dep.mjs', () => ({ greet: () => 'mocked' }));
+jest.mock('./dep.cjs', () => ({ greet: () => 'mocked' }));
+
+test('actual module', () => {
+  const require = createRequire(import.meta.url);
+  expect(greet('World')).toBe('mocked');
+  expect(require('./dep.cjs').greet('World')).toBe('mocked');
+  expect(jest.requireActual('./dep.mjs').greet('World')).toBe('Hello World');
+  expect(jest.requireActual('./dep.cjs').greet('World')).toBe('Hello World');
+  expect(jest.requireActual('./dep.cjs')).toBe(jest.requireActual('./dep.cjs'));
+  expect(require('./dep.cjs').greet('World')).toBe('mocked');
+});
+`, { fixtures });
+
+    expectSummary(result, { pass: 1 });
+  });
+});
+
+describe('jest.requireMock', () => {
+  testWithModuleHooks('returns the registered module mock', () => {
+    const result = runTestProject(`
+import { greet } from './dep.mjs';
+
+jest.mock('./dep.mjs', () => ({ greet: jest.fn() }));
+
+test('module mock', () => {
+  expect(jest.requireMock('./dep.mjs').greet).toBe(greet);
+  expect(jest.isMockFunction(jest.requireMock('./dep.cjs').greet)).toBe(true);
+});
+`, { fixtures });
+
+    expectSummary(result, { pass: 1 });
+  });
+});
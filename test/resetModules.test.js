@@ -0,0 +1,89 @@
+// This test verifies jest.resetModules()
+// The adapter is imported via the --import flag in the test command
+import { expectSummary, hasModuleHooks, runTestProject, testWithModuleHooks } from './testProject.js';
+
+// Stateful modules, along with a dependency to check transitive loads
+const fixtures = {
+  'counter.mjs': "import * as dep from './dep.mjs';\nlet count = 0;\nexport const increment = () => ++count;\nexport { dep };\n",
+  'counter.cjs': "let count = 0;\nmodule.exports = { increment: () => ++count, dep: require('./dep.cjs') };\n",
+  'dep.mjs': "export function greet(name) { return 'Hello ' + name; }\n",
+  'dep.cjs': "module.exports = { greet: name => 'Hello ' + name };\n"
+};
+
+describe('jest.resetModules', () => {
+  testWithModuleHooks('reloads imported ES modules', () => {
+    const result = runTestProject(`
+test('fresh instances', async () => {
+  const counter = await import('./counter.mjs');
+  expect(counter.increment()).toBe(1);
+  expect((await import('./counter.mjs')).increment()).toBe(2);
+
+  jest.resetModules();
+  const reloaded = await import('./counter.mjs');
+  expect(reloaded).not.toBe(counter);
+  expect(reloaded.dep).not.toBe(counter.dep);
+  expect(reloaded.increment()).toBe(1);
+  expect(await import('./counter.mjs')).toBe(reloaded);
+
+  jest.resetModules();
+  expect((await import('./counter.mjs')).increment()).toBe(1);
+});
+`, { fixtures });
+
+    expectSummary(result, { pass: 1 });
+  });
+
+  test('reloads required CommonJS modules', () => {
+    const result = runTestProject(`
+import { createRequire } from 'node:module';
+
+const require = createRequire(import.meta.url);
+
+test('fresh instances', () => {
+  const counter = require('./counter.cjs');
+  expect(counter.increment()).toBe(1);
+
+  jest.resetModules();
+  const reloaded = require('./counter.cjs');
+  expect(reloaded).not.toBe(counter);
+  expect(reloaded.dep).not.toBe(counter.dep);
+  expect(reloaded.increment()).toBe(1);
+});
+`, { fixtures });
+
+    expectSummary(result, { pass: 1 });
+  });
+
+  test('keeps module mocks in place', () => {
+    const result = runTestProject(`
+import { createRequire } from 'node:module';
+
+jest.mock('./dep.mjs', () => ({ greet: () => 'mocked' }));
+jest.mock('./dep.cjs', () => ({ greet: () => 'mocked' }));
+
+test('mocks after reset', async () => {
+  const require = createRequire(import.meta.url);
+  const mock = jest.requireMock('./dep.mjs');
+
+  jest.resetModules();
+  expect((await import('./counter.mjs')).dep.greet('World')).toBe('mocked');
+  expect(require('./counter.cjs').dep.greet('World')).toBe('mocked');
+  expect(jest.requireMock('./dep.mjs')).toBe(mock);
+});
+`, { fixtures });
+
+    expectSummary(result, { pass: 1 });
+  });
+
+  (hasModuleHooks ? test.skip : test)('warns that ES modules are not reloaded without module hooks', () => {
+    const result = runTestProject(`
+test('reset', () => {
+  jest.resetModules();
+  jest.resetModules();
+});
+`, { fixtures });
+
+    expect(result.stdout.match(/jest\.resetModules\(\) is only partially supported/g)).toHaveLength(1);
+    expectSummary(result, { pass: 1 });
+  });
+});
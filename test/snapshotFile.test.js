@@ -0,0 +1,81 @@
+// This test verifies that snapshots are read and written in Jest's .snap format
+// The adapter is imported via the --import flag in the test command
+import { runTestProject } from './testProject.js';
+
+const snapshotFile = '__snapshots__/example.test.mjs.snap';
+
+const jestSnapshot = [
+  '// Jest Snapshot v1, https://goo.gl/fbAQLP',
+  '',
+  'exports[`values 2 are printed like Jest 1`] = `',
+  '{',
+  '  "date": 2020-01-01T00:00:00.000Z,',
+  '  "fn": [Function],',
+  '  "map": Map {',
+  '    "key" => "value",',
+  '  },',
+  '  "self": [Circular],',
+  '  "set": Set {',
+  '    1,',
+  '  },',
+  '  "symbol": Symbol(id),',
+  '  "undefined": undefined,',
+  '}',
+  '`;',
+  '',
+  'exports[`values 10 keeps counting 1`] = `"first"`;',
+  '',
+  'exports[`values 10 keeps counting 2`] = `"\\`second\\`"`;',
+  ''
+].join('\n');
+
+const testSource = `
+describe('values', () => {
+  test('2 are printed like Jest', () => {
+    const value = {
+      date: new Date('2020-01-01T00:00:00.000Z'),
+      fn: () => {},
+      map: new Map([['key', 'value']]),
+      set: new Set([1]),
+      symbol: Symbol('id'),
+      undefined: undefined
+    };
+    value.self = value;
+    expect(value).toMatchSnapshot();
+  });
+
+  test('10 keeps counting', () => {
+    expect('first').toMatchSnapshot();
+    expect('\`second\`').toMatchSnapshot();
+  });
+});
+`;
+
+describe('Jest snapshot files', () => {
+  test('writes new snapshots in Jest format, sorted by key', () => {
+    const { status, files } = runTestProject(testSource);
+    expect(status).toBe(0);
+    expect(files[snapshotFile]).toBe(jestSnapshot);
+  });
+
+  test('matches existing Jest snapshots without rewriting them', () => {
+    const snapshot = jestSnapshot.replace('goo.gl/fbAQLP', 'goo.gl/fbAQLP (untouched)');
+    const { status, files } = runTestProject(testSource, { fixtures: { [snapshotFile]: snapshot } });
+    expect(status).toBe(0);
+    expect(files[snapshotFile]).toBe(snapshot);
+  });
+
+  test('fails on mismatching snapshots without updating', () => {
+    const snapshot = jestSnapshot.replace('"first"', '"other"');
+    const { status, files } = runTestProject(testSource, { fixtures: { [snapshotFile]: snapshot } });
+    expect(status).toBe(1);
+    expect(files[snapshotFile]).toBe(snapshot);
+  });
+
+  test('rewrites mismatching snapshots when updating', () => {
+    const snapshot = jestSnapshot.replace('"first"', '"other"');
+    const { status, files } = runTestProject(testSource, { fixtures: { [snapshotFile]: snapshot }, updateSnapshots: true });
+    expect(status).toBe(0);
+    expect(files[snapshotFile]).toBe(jestSnapshot);
+  });
+});
@@ -0,0 +1,56 @@
+// This test verifies custom snapshot resolvers and the CI mode
+// The adapter is imported via the --import flag in the test command
+import { runTestProject } from './testProject.js';
+
+const testSource = "test('resolved', () => { expect('value').toMatchSnapshot(); });\n";
+
+// Keeps the snapshots in a separate tree
+const resolverSource = `
+const path = require('node:path');
+module.exports = {
+  resolveSnapshotPath: (testPath, extension) =>
+    path.join(path.dirname(testPath), 'snapshots', path.basename(testPath) + extension),
+  resolveTestPath: (snapshotPath, extension) =>
+    path.join(path.dirname(path.dirname(snapshotPath)), path.basename(snapshotPath, extension)),
+  testPathForConsistencyCheck: path.join('tests', 'example.test.js')
+};
+`;
+
+const fixtures = { 'resolver.cjs': resolverSource };
+
+describe('snapshot resolver', () => {
+  test('stores snapshots where the resolver says', () => {
+    const { status, files } = runTestProject(testSource, { fixtures, env: { JEST_COMPAT_SNAPSHOT_RESOLVER: './resolver.cjs' } });
+
+    expect(status).toBe(0);
+    expect(Object.keys(files)).toEqual(['example.test.mjs', 'resolver.cjs', 'snapshots/example.test.mjs.snap']);
+  });
+
+  test('rejects resolvers that do not resolve test files back', () => {
+    const { status, stdout, files } = runTestProject(testSource, {
+      fixtures: { 'resolver.cjs': resolverSource.replace("path.basename(snapshotPath, extension)", "'other.test.js'") },
+      env: { JEST_COMPAT_SNAPSHOT_RESOLVER: './resolver.cjs' }
+    });
+
+    expect(status).toBe(1);
+    expect(stdout).toContain('Inconsistent snapshot resolver');
+    expect(Object.keys(files)).toEqual(['example.test.mjs', 'resolver.cjs']);
+  });
+});
+
+describe('CI mode', () => {
+  test('fails instead of writing new snapshots when CI is set', () => {
+    const { status, stdout, files } = runTestProject(testSource, { fixtures, env: { CI: 'true' } });
+
+    expect(status).toBe(1);
+    expect(stdout).toContain('New snapshot was not written');
+    expect(Object.keys(files)).toEqual(['example.test.mjs', 'resolver.cjs']);
+  });
+
+  test('can be turned off explicitly', () => {
+    const { status, files } = runTestProject(testSource, { fixtures, env: { CI: 'true', JEST_COMPAT_CI: 'false' } });
+
+    expect(status).toBe(0);
+    expect(Object.keys(files)).toContain('__snapshots__/example.test.mjs.snap');
+  });
+});
@@ -0,0 +1,110 @@
+// This test verifies custom snapshot serializers, added or configured
+// Values are serialized as snapshot matchers do, asserted with toBe as the tests run
+// with --test-update-snapshots, which would rewrite inline snapshots instead of failing
+// The adapter is imported via the --import flag in the test command
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { configure } from '../dist/esm/index.js';
+import { serialize } from '../dist/esm/snapshotFormat.js';
+import { expectSummary, runTestProject } from './testProject.js';
+
+class Money {
+  constructor(amount, currency) {
+    this.amount = amount;
+    this.currency = currency;
+  }
+}
+
+class Point {
+  constructor(x, y) {
+    this.x = x;
+    this.y = y;
+  }
+}
+
+describe('snapshot serializers', () => {
+  let dir;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'snapshot-serializers-'));
+    // A configured serializer using the legacy print interface
+    fs.writeFileSync(path.join(dir, 'point.cjs'), [
+      'module.exports = {',
+      "  test: value => value && value.constructor && value.constructor.name === 'Point',",
+      "  print: (value) => `Point(${value.x}, ${value.y})`",
+      '};'
+    ].join('\n'));
+    fs.writeFileSync(path.join(dir, 'money.cjs'), [
+      'module.exports = {',
+      "  test: value => value && value.constructor && value.constructor.name === 'Money',",
+      "  serialize: () => 'configured money'",
+      '};'
+    ].join('\n'));
+    configure({ snapshotSerializers: [path.join(dir, 'point.cjs'), path.join(dir, 'money.cjs')] });
+  });
+
+  afterAll(() => {
+    configure({ snapshotSerializers: [] });
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('applies configured serializers', () => {
+    expect(serialize(new Point(1, 2))).toBe('Point(1, 2)');
+    expect(serialize(new Money(1, 'EUR'))).toBe('configured money');
+  });
+
+  test('applies serializers added with expect.addSnapshotSerializer first', () => {
+    expect.addSnapshotSerializer({
+      test: value => value instanceof Money,
+      serialize: (value, config, indentation, depth, refs, printer) =>
+        `Money ${printer(value.amount, config, indentation, depth, refs)} ${value.currency}`
+    });
+    expect(serialize({ price: new Money(10, 'EUR'), at: new Point(0, 0) })).toBe([
+      '{',
+      '  "at": Point(0, 0),',
+      '  "price": Money 10 EUR,',
+      '}'
+    ].join('\n'));
+  });
+
+  test('rejects invalid configured serializers', () => {
+    fs.writeFileSync(path.join(dir, 'invalid.cjs'), 'module.exports = {};');
+    configure({ snapshotSerializers: [path.join(dir, 'invalid.cjs')] });
+    try {
+      expect(() => serialize(1)).toThrow('must export an object with a test function');
+    } finally {
+      configure({ snapshotSerializers: [path.join(dir, 'point.cjs'), path.join(dir, 'money.cjs')] });
+    }
+  });
+
+  test('validates the snapshotSerializers option', () => {
+    expect(() => configure({ snapshotSerializers: [1] })).toThrow('expected an array of strings');
+    expect(serialize(new Point(3, 4))).toBe('Point(3, 4)');
+  });
+
+  test('are used by the snapshot matchers', () => {
+    const result = runTestProject({
+      'point.cjs': fs.readFileSync(path.join(dir, 'point.cjs'), 'utf8'),
+      'example.test.mjs': `
+class Point {
+  constructor(x, y) {
+    this.x = x;
+    this.y = y;
+  }
+}
+
+test('matches', () => {
+  expect(new Point(1, 2)).toMatchInlineSnapshot(\`Point(1, 2)\`);
+});
+
+test('mismatches', () => {
+  expect(new Point(3, 4)).toMatchInlineSnapshot(\`Point(1, 2)\`);
+});
+`
+    }, { env: { JEST_COMPAT_SNAPSHOT_SERIALIZERS: './point.cjs' } });
+
+    expectSummary(result, { pass: 1, fail: 1 });
+    expect(result.stdout).toContain('Point(3, 4)');
+  });
+});
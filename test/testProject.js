@@ -0,0 +1,71 @@
+// Helpers running test files of temporary projects in a child process, as standalone test runs
+import { spawnSync } from 'node:child_process';
+import fs from 'node:fs';
+import module from 'node:module';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+export const adapterPath = fileURLToPath(new URL('../dist/esm/index.js', import.meta.url));
+
+// Whether the module hooks are available, module.registerHooks() being added in Node.js 22.15:
+// automock, the root __mocks__ directory, hoisting and the ES module registries need them
+export const hasModuleHooks = typeof module.registerHooks === 'function';
+export const testWithModuleHooks = hasModuleHooks ? test : test.skip;
+export const describeWithModuleHooks = hasModuleHooks ? describe : describe.skip;
+
+// Whether node accepts --test-update-snapshots, added in Node.js 22.3, the updateSnapshots
+// option of the adapter updating snapshots on every version
+const [major, minor] = process.versions.node.split('.').map(Number);
+export const hasUpdateSnapshotsFlag = major > 22 || (major === 22 && minor >= 3);
+
+/**
+ * Runs a test file with the adapter, in a temporary directory holding the given files
+ * @param files Content of the files of the project, by path relative to its directory, or the source of the test file alone
+ * @param options.testFile Test file to run, relative to the directory
+ * @param options.fixtures Content of the other files of the project, like the modules imported by the test file
+ * @param options.args Additional node arguments, like --test-update-snapshots
+ * @param options.env Additional environment variables, CI being unset
+ * @param options.updateSnapshots Whether all snapshots are written, with the updateSnapshots option
+ * @param options.timeout Milliseconds after which the run is killed, its status being null
+ * @returns Exit status, output and content of the files of the project after the run
+ */
+export function runTestProject(files, { testFile = 'example.test.mjs', fixtures = {}, args = [], env = {}, updateSnapshots = false, timeout } = {}) {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'test-project-'));
+  const projectFiles = { ...fixtures, ...(typeof files === 'string' ? { [testFile]: files } : files) };
+  for (const [file, content] of Object.entries(projectFiles)) {
+    fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+    fs.writeFileSync(path.join(dir, file), content);
+  }
+  try {
+    // Run as a standalone test run, not as a subtest of this one, and outside of CI
+    const { NODE_TEST_CONTEXT, CI, ...parentEnv } = process.env;
+    if (updateSnapshots) {
+      env = { JEST_COMPAT_UPDATE_SNAPSHOTS: 'true', ...env };
+    }
+    const nodeArgs = ['--test', '--test-reporter=tap', '--experimental-test-module-mocks', ...args, '--import', adapterPath, testFile];
+    const { status, stdout, stderr } = spawnSync(process.execPath, nodeArgs, { cwd: dir, env: { ...parentEnv, ...env }, encoding: 'utf8', timeout });
+    return { status, stdout, stderr, files: readFiles(dir) };
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Checks the summary of a test run, failing ones exiting with status 1
+ * @param result Result of runTestProject()
+ * @param counts Expected number of passed and failed tests
+ */
+export function expectSummary(result, { pass, fail = 0 }) {
+  expect(result.stdout).toContain(`# pass ${pass}\n`);
+  expect(result.stdout).toContain(`# fail ${fail}\n`);
+  expect(result.status).toBe(fail > 0 ? 1 : 0);
+}
+
+// Reads the files of a directory, by path relative to it with forward slashes
+function readFiles(dir) {
+  return Object.fromEntries(fs.readdirSync(dir, { recursive: true })
+    .filter(file => fs.statSync(path.join(dir, file)).isFile())
+    .sort()
+    .map(file => [file.split(path.sep).join('/'), fs.readFileSync(path.join(dir, file), 'utf8')]));
+}
@@ -0,0 +1,96 @@
+// This test verifies jest.setTimeout and the default timeout of tests and hooks
+// The adapter is imported via the --import flag in the test command
+import { expectSummary, runTestProject } from './testProject.js';
+
+const delay = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('jest.setTimeout', () => {
+  jest.setTimeout(50);
+
+  beforeEach(async () => {
+    // Hooks get the explicit timeout when one is given
+    await delay(100);
+  }, 1000);
+
+  test.failing('applies to tests declared afterwards', async () => {
+    await delay(200);
+  });
+
+  test('is overridden by an explicit timeout', async () => {
+    await delay(100);
+  }, 1000);
+
+  // Restore the default for the tests declared afterwards
+  jest.setTimeout(5000);
+
+  test('is restored for later tests', async () => {
+    await delay(100);
+  });
+});
+
+describe('timeouts', () => {
+  test('fail slow tests and hooks', () => {
+    const result = runTestProject({
+      'example.test.mjs': `
+const delay = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+jest.setTimeout(50);
+
+test('slow test', async () => {
+  await delay(200);
+});
+
+describe('slow hook', () => {
+  beforeEach(async () => {
+    await delay(200);
+  });
+
+  test('after the slow hook', () => {});
+});
+
+test('fast test', async () => {
+  await delay(5);
+});
+`
+    });
+
+    // The test after the failed hook is counted as cancelled
+    expectSummary(result, { pass: 1, fail: 1 });
+    expect(result.stdout).toContain('# cancelled 1\n');
+    expect(result.stdout).toContain('not ok 1 - slow test');
+    expect(result.stdout).toContain("error: 'test timed out after 50ms'");
+    expect(result.stdout).toContain("error: 'failed running beforeEach hook'");
+  });
+
+  test('are turned off by Infinity and by delays too long for timers', () => {
+    const result = runTestProject({
+      'example.test.mjs': `
+const delay = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+jest.setTimeout(Infinity);
+
+test('waits as long as the test takes', async () => {
+  await delay(20);
+});
+
+test.failing('fails late', async () => {
+  await delay(20);
+  throw new Error('late failure');
+});
+
+test.failing('passes unexpectedly', async () => {
+  await delay(20);
+});
+
+test('waits with a timeout too long for a timer', async () => {
+  await delay(20);
+}, 2 ** 31);
+
+beforeAll(async () => {
+  await delay(20);
+}, 2 ** 40);
+`
+    });
+
+    expectSummary(result, { pass: 3, fail: 1 });
+    expect(result.stdout).toContain('not ok 3 - passes unexpectedly');
+  });
+});